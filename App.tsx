@@ -1,33 +1,71 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef, useCallback } from 'react';
 import CanvasLayer from './components/CanvasLayer';
 import ControlPanel from './components/ControlPanel';
 import { BridgeManager } from './components/BridgeManager';
 import { AppSettings, CircleConfig, DEFAULT_SETTINGS } from './types';
+import { resizeZone } from './utils/zoneShape';
+import { moveZones } from './utils/zoneArrange';
+import { createLayoutBundle, isLayoutBundle, unpackLayoutMedia } from './utils/layoutBundle';
+import { parseLayout, serializeLayout } from './utils/layoutSchema';
+import { useScenePresets } from './hooks/useScenePresets';
+import { useLayoutHistory } from './hooks/useLayoutHistory';
+import { metrics, metricsToCsv, metricsToJson } from './utils/metrics';
+
+const STALE_MEDIA_REVOKE_MS = 5000;
+
+const downloadFile = (text: string, type: string, filename: string) => {
+  const blob = new Blob([text], { type });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+const downloadJson = (data: unknown, filename: string) => downloadFile(JSON.stringify(data, null, 2), 'application/json', filename);
 
 const App: React.FC = () => {
   const [settings, setSettings] = useState<AppSettings>(DEFAULT_SETTINGS);
   const [circles, setCircles] = useState<CircleConfig[]>([]);
   const [editingId, setEditingId] = useState<string | null>(null);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
   const [backgroundImage, setBackgroundImage] = useState<HTMLImageElement | null>(null);
-  const [perfStats, setPerfStats] = useState("-");
   
   // Lifted state for Bridge Manager to control CanvasLayer pausing
   const [showBridge, setShowBridge] = useState(false);
+  const [showTouchCalibration, setShowTouchCalibration] = useState(false);
+  const [showCameraCalibration, setShowCameraCalibration] = useState(false);
+
+  // Scene switches arrive asynchronously (IndexedDB, remote commands)
+  const settingsRef = useRef(settings);
+  settingsRef.current = settings;
+  const layoutUrlsRef = useRef<string[]>([]); // Object URLs owned by the loaded bundle
+
+  // Multi-selection; the last selected zone is the one being edited
+  const setSelection = useCallback((ids: string[]) => {
+    setSelectedIds(ids);
+    setEditingId(ids.length > 0 ? ids[ids.length - 1] : null);
+  }, []);
+  const selectZone = useCallback((id: string | null) => setSelection(id ? [id] : []), [setSelection]);
+
+  const history = useLayoutHistory({ circles, setCircles, settings, setSettings });
 
   // Load from LocalStorage on Mount
   useEffect(() => {
     const savedConfig = localStorage.getItem('NEU_DEFAULT_CONFIG');
     if (savedConfig) {
       try {
-        const parsed = JSON.parse(savedConfig);
-        if (parsed.settings) setSettings(parsed.settings);
-        if (parsed.circles) {
-            // Migration: Ensure 'name' exists
-            const migratedCircles = parsed.circles.map((c: any, i: number) => ({
-                ...c,
-                name: c.name || `Circle ${i + 1}`
-            }));
-            setCircles(migratedCircles);
+        const layout = parseLayout(JSON.parse(savedConfig));
+        if (layout.ok) {
+          history.reset();
+          setSettings(layout.settings);
+          setCircles(layout.circles);
+          if (layout.warnings.length > 0) console.warn("Saved config:", layout.warnings);
+        } else {
+          console.error("Saved config is invalid, using defaults:\n" + layout.errors.join('\n'));
         }
       } catch (e) {
         console.error("Failed to load saved config", e);
@@ -49,12 +87,20 @@ const App: React.FC = () => {
     return () => window.removeEventListener('updateMappingPoint', handleUpdate);
   }, []);
 
-  // Keyboard Shortcuts for resizing
+  // Keyboard Shortcuts for resizing and nudging
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
       if (!editingId) return;
       if (['INPUT', 'TEXTAREA', 'SELECT'].includes((e.target as HTMLElement).tagName)) return;
 
+      const nudge = { ArrowLeft: [-1, 0], ArrowRight: [1, 0], ArrowUp: [0, -1], ArrowDown: [0, 1] }[e.key];
+      if (nudge && !e.ctrlKey && !e.metaKey && !e.altKey) {
+        e.preventDefault();
+        const step = e.shiftKey ? 10 : 1;
+        setCircles(prev => moveZones(prev, selectedIds, nudge[0] * step, nudge[1] * step));
+        return;
+      }
+
       const isLeftBracket = e.key === '[' || e.key === '【';
       const isRightBracket = e.key === ']' || e.key === '】';
 
@@ -64,46 +110,76 @@ const App: React.FC = () => {
           if (c.id !== editingId) return c;
           const step = e.altKey ? 20 : 5;
           const change = isRightBracket ? step : -step;
-          return { ...c, radius: Math.max(10, c.radius + change) };
+          return { ...c, ...resizeZone(c, change) };
         }));
       }
     };
 
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [editingId]);
+  }, [editingId, selectedIds]);
 
   const saveLayout = () => {
-    const data = {
-        version: 'react-1.0',
-        circles,
-        settings,
-        hasBackground: !!backgroundImage
-    };
-    const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `neu-layout-${Date.now()}.json`;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
+    const data = { ...serializeLayout(circles, settings), hasBackground: !!backgroundImage };
+    downloadJson(data, `neu-layout-${Date.now()}.json`);
+  };
+
+  // Same layout file, but with the background and all media embedded as base64
+  const saveBundle = async () => {
+    const bundle = await createLayoutBundle(circles, settings, backgroundImage);
+    downloadJson(bundle.data, `neu-bundle-${Date.now()}.json`);
+    if (bundle.failed.length > 0) {
+        alert(`Bundle saved, but these files could not be embedded and are kept as links:\n${bundle.failed.join('\n')}`);
+    }
   };
 
+  // Validates and applies a layout or bundle (file import and scene switching).
+  // Returns the validation errors, or null once the layout is live.
+  const applyLayout = (input: unknown): string[] | null => {
+      let json: any = input;
+      let background: string | null = null;
+      let objectUrls: string[] = [];
+      if (isLayoutBundle(json)) {
+          const media = unpackLayoutMedia(json);
+          json = { ...json, circles: media.circles, settings: media.settings };
+          background = media.background;
+          objectUrls = media.objectUrls;
+      }
+
+      const layout = parseLayout(json, settingsRef.current);
+      if (!layout.ok) {
+          objectUrls.forEach(u => URL.revokeObjectURL(u));
+          return layout.errors;
+      }
+      if (layout.warnings.length > 0) console.warn("Layout import:", layout.warnings);
+
+      history.reset();
+      setCircles(layout.circles);
+      setSettings(prev => ({ ...layout.settings, isMappingEdit: prev.isMappingEdit }));
+      selectZone(null);
+      if (background) {
+          const img = new Image();
+          img.onload = () => setBackgroundImage(img);
+          img.src = background;
+      } else if (json.hasBackground === false) {
+          setBackgroundImage(null);
+      }
+
+      // The previous bundle's media stays alive until its elements have been replaced
+      const stale = layoutUrlsRef.current;
+      layoutUrlsRef.current = objectUrls;
+      if (stale.length > 0) setTimeout(() => stale.forEach(u => URL.revokeObjectURL(u)), STALE_MEDIA_REVOKE_MS);
+      return null;
+  };
+
+  const scenePresets = useScenePresets({ circles, settings, backgroundImage, applyLayout });
+
   const loadLayout = (file: File) => {
       const reader = new FileReader();
       reader.onload = (e) => {
           try {
-             const json = JSON.parse(e.target?.result as string);
-             if(json.circles) {
-                 const migrated = json.circles.map((c: any, i: number) => ({
-                     ...c,
-                     name: c.name || `Circle ${i + 1}`
-                 }));
-                 setCircles(migrated);
-             }
-             if(json.settings) setSettings(prev => ({...prev, ...json.settings}));
-             setEditingId(null);
+             const errors = applyLayout(JSON.parse(e.target?.result as string));
+             if (errors) alert(`This layout can't be loaded:\n\n${errors.join('\n')}`);
           } catch(err) {
               alert("Failed to load layout JSON");
           }
@@ -111,10 +187,15 @@ const App: React.FC = () => {
       reader.readAsText(file);
   }
 
+  // Telemetry report for commissioning a site
+  const exportMetrics = (format: 'csv' | 'json') => {
+    if (format === 'csv') downloadFile(metricsToCsv(metrics), 'text/csv', `neu-metrics-${Date.now()}.csv`);
+    else downloadJson(metricsToJson(metrics), `neu-metrics-${Date.now()}.json`);
+  };
+
   const saveDefault = () => {
      try {
-       const data = { settings, circles };
-       localStorage.setItem('NEU_DEFAULT_CONFIG', JSON.stringify(data));
+       localStorage.setItem('NEU_DEFAULT_CONFIG', JSON.stringify(serializeLayout(circles, settings)));
        console.log("Configuration saved as default");
        alert("Current settings saved as default startup configuration.");
      } catch(e) {
@@ -130,10 +211,18 @@ const App: React.FC = () => {
         circles={circles}
         setCircles={setCircles}
         editingId={editingId}
-        setEditingId={setEditingId}
+        setEditingId={selectZone}
+        selectedIds={selectedIds}
+        setSelection={setSelection}
         backgroundImage={backgroundImage}
-        onStatsUpdate={setPerfStats}
         isPaused={showBridge} // Pause camera when bridge is open to prevent WS conflict
+        onRemoteScene={scenePresets.switchScene}
+        isCalibratingTouch={showTouchCalibration && settings.cameraType === 'professional'}
+        onSaveTouchPlane={(plane) => setSettings(prev => ({ ...prev, touchPlane: plane }))}
+        onCloseTouchCalibration={() => setShowTouchCalibration(false)}
+        isCalibratingCamera={showCameraCalibration}
+        onSaveCameraCalibration={(calibration) => setSettings(prev => ({ ...prev, cameraCalibration: calibration }))}
+        onCloseCameraCalibration={() => setShowCameraCalibration(false)}
       />
       
       <ControlPanel 
@@ -142,14 +231,25 @@ const App: React.FC = () => {
         circles={circles}
         setCircles={setCircles}
         editingId={editingId}
-        setEditingId={setEditingId}
+        setEditingId={selectZone}
+        selectedIds={selectedIds}
+        setSelection={setSelection}
         onSaveLayout={saveLayout}
+        onSaveBundle={saveBundle}
         onLoadLayout={loadLayout}
         onSaveDefault={saveDefault}
+        history={history}
+        scenes={scenePresets.scenes}
+        activeScene={scenePresets.activeScene}
+        onSaveScene={scenePresets.saveScene}
+        onSwitchScene={scenePresets.switchScene}
+        onDeleteScene={scenePresets.deleteScene}
         backgroundImage={backgroundImage}
         setBackgroundImage={setBackgroundImage}
-        performanceStats={perfStats}
+        onExportMetrics={exportMetrics}
         onOpenBridge={() => setShowBridge(true)}
+        onCalibrateTouch={() => setShowTouchCalibration(true)}
+        onCalibrateCamera={() => setShowCameraCalibration(true)}
       />
 
       <BridgeManager 
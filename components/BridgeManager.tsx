@@ -1,5 +1,7 @@
 import React, { useEffect, useRef, useState } from 'react';
 import { Button } from './UI';
+import { describeFeedLink, FEED_LINK_COLORS } from '../utils/feedLink';
+import { useFeedLink } from '../hooks/useFeedLink';
 
 interface BridgeManagerProps {
   isOpen: boolean;
@@ -19,6 +21,9 @@ export const BridgeManager: React.FC<BridgeManagerProps> = ({ isOpen, onClose, w
   const [serverStats, setServerStats] = useState<any>(null);
   const wsRef = useRef<WebSocket | null>(null);
   const scrollRef = useRef<HTMLDivElement>(null);
+  const feed = useFeedLink();
+  // The canvas feed is paused while the terminal is open, so show where it was before that
+  const feedPhase = feed.phase === 'idle' ? feed.pausedFrom ?? 'idle' : feed.phase;
 
   // Auto-scroll logs
   useEffect(() => {
@@ -160,7 +165,7 @@ export const BridgeManager: React.FC<BridgeManagerProps> = ({ isOpen, onClose, w
         </div>
 
         {/* Status Bar */}
-        <div className="grid grid-cols-3 gap-px bg-white/10 text-[10px] font-mono text-zinc-300">
+        <div className="grid grid-cols-4 gap-px bg-white/10 text-[10px] font-mono text-zinc-300">
             <div className="bg-zinc-900 p-2 text-center">
                 <span className="text-zinc-500 block">DEVICE</span>
                 {serverStats?.device_name || (status === 'connected' ? 'Identifying...' : '---')}
@@ -173,6 +178,13 @@ export const BridgeManager: React.FC<BridgeManagerProps> = ({ isOpen, onClose, w
                 <span className="text-zinc-500 block">D2C ALIGN</span>
                 {serverStats?.align_mode ? 'ON (HW)' : 'OFF'}
             </div>
+            <div className="bg-zinc-900 p-2 text-center" title={feed.lastError || undefined}>
+                <span className="text-zinc-500 block">CANVAS FEED</span>
+                <span className={FEED_LINK_COLORS[feedPhase]}>{describeFeedLink({ ...feed, phase: feedPhase, retryAt: null })}</span>
+                {feed.phase === 'idle' && <span className="text-zinc-600"> · paused</span>}
+                {feed.lastError && <span className="text-red-400/80 block truncate">{feed.lastError}</span>}
+                {feed.lastLiveAt && <span className="text-zinc-600 block">live {new Date(feed.lastLiveAt).toLocaleTimeString()}</span>}
+            </div>
         </div>
 
         {/* Terminal Output */}
@@ -0,0 +1,172 @@
+
+import React, { useEffect, useRef, useState } from 'react';
+import { AppSettings, CameraCalibration as CameraCalibrationResult, Point, TrackedHand } from '../types';
+import { Button } from './UI';
+import {
+  CALIBRATION_TARGETS, CalibrationOverlay, CalibrationPair, MIN_CALIBRATION_POINTS, solveCameraCalibration
+} from '../utils/cameraCalibration';
+import { canvasToCamera, getCanvasSize } from '../utils';
+
+const POLL_MS = 30;
+const HOLD_MS = 800; // A fingertip held this long on a target captures it
+const STILL_TOLERANCE = 0.01; // Max normalized camera drift during the hold
+const REARM_DISTANCE = 0.05; // The tip must move this far from the last capture before the next hold counts
+
+interface CameraCalibrationProps {
+  settings: AppSettings;
+  handsRef: React.MutableRefObject<TrackedHand[]>;
+  onPreview: (overlay: CalibrationOverlay | null) => void; // Drawn on the canvas while open
+  onSave: (calibration: CameraCalibrationResult) => void;
+  onClose: () => void;
+}
+
+// Projects each target in turn; a fingertip held on it (or the operator's
+// Capture) records where the camera sees it. The pairs solve the homography.
+export const CameraCalibration = ({ settings, handsRef, onPreview, onSave, onClose }: CameraCalibrationProps) => {
+  // One entry per visited target, null when skipped; the next target is pairs.length
+  const [pairs, setPairs] = useState<(CalibrationPair | null)[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  const settingsRef = useRef(settings);
+  settingsRef.current = settings;
+  const historyRef = useRef<{ t: number; p: Point }[]>([]);
+  const armedRef = useRef(true);
+  const lastCaptureRef = useRef<Point | null>(null);
+
+  const index = pairs.length;
+  const done = index >= CALIBRATION_TARGETS.length;
+  const captured = pairs.filter((p): p is CalibrationPair => p !== null);
+  const { width, height } = getCanvasSize(settings);
+  const result = done ? solveCameraCalibration(captured, width, height) : null;
+
+  const record = (camera: Point | null) => {
+    if (done) return;
+    setPairs(prev => [...prev, camera ? { camera, canvas: CALIBRATION_TARGETS[prev.length] } : null]);
+    lastCaptureRef.current = camera;
+    armedRef.current = camera === null;
+    historyRef.current = [];
+    setError(null);
+  };
+
+  const tipInCamera = (): Point | null => {
+    const tip = handsRef.current[0]?.tip;
+    if (!tip) return null;
+    const { width: w, height: h } = getCanvasSize(settingsRef.current);
+    return canvasToCamera(tip, settingsRef.current, w, h);
+  };
+
+  const mean = (pts: Point[]): Point => ({
+    x: pts.reduce((s, p) => s + p.x, 0) / pts.length,
+    y: pts.reduce((s, p) => s + p.y, 0) / pts.length
+  });
+
+  // Operator capture: whatever the hold has gathered so far, else the current tip
+  const captureNow = () => {
+    const held = historyRef.current.map(h => h.p);
+    const p = held.length > 0 ? mean(held) : tipInCamera();
+    if (!p) {
+      setError('No fingertip in view.');
+      return;
+    }
+    record(p);
+  };
+
+  // Fingertip hold detection
+  useEffect(() => {
+    if (done) return;
+    const id = window.setInterval(() => {
+      const now = performance.now();
+      const p = tipInCamera();
+      let progress = 0;
+      if (!p) {
+        historyRef.current = [];
+        armedRef.current = true;
+      } else if (!armedRef.current) {
+        const last = lastCaptureRef.current;
+        if (!last || Math.hypot(p.x - last.x, p.y - last.y) > REARM_DISTANCE) armedRef.current = true;
+      } else {
+        const history = historyRef.current;
+        history.push({ t: now, p });
+        while (history.length > 0 && now - history[0].t > HOLD_MS) history.shift();
+        const centre = mean(history.map(h => h.p));
+        const still = history.every(h => Math.hypot(h.p.x - centre.x, h.p.y - centre.y) <= STILL_TOLERANCE);
+        if (!still) history.splice(0, history.length - 1);
+        progress = Math.min(1, (now - history[0].t) / HOLD_MS);
+        if (still && progress >= 1 - POLL_MS / HOLD_MS) {
+          record(centre);
+          return;
+        }
+      }
+      onPreview({ target: CALIBRATION_TARGETS[index], progress, captured: captured.map(c => c.canvas) });
+    }, POLL_MS);
+    return () => window.clearInterval(id);
+  });
+
+  useEffect(() => {
+    if (done) onPreview({ target: null, progress: 0, captured: captured.map(c => c.canvas) });
+  }, [done, pairs, onPreview]);
+  useEffect(() => () => onPreview(null), [onPreview]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const tag = (e.target as HTMLElement)?.tagName;
+      if (tag === 'INPUT' || tag === 'TEXTAREA' || tag === 'SELECT') return;
+      if (e.key === 'Escape') onClose();
+      else if (e.code === 'Space' && !done) {
+        e.preventDefault();
+        captureNow();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  const restart = () => {
+    setPairs([]);
+    setError(null);
+    historyRef.current = [];
+    armedRef.current = true;
+    lastCaptureRef.current = null;
+  };
+
+  return (
+    <div className="fixed bottom-6 left-1/2 -translate-x-1/2 z-50 w-[380px] p-4 space-y-3 bg-zinc-900/95 border border-fuchsia-500/30 rounded-lg shadow-2xl backdrop-blur">
+      <div className="flex items-center justify-between">
+        <h3 className="font-tech text-sm text-fuchsia-400 tracking-wider">CAMERA ALIGNMENT</h3>
+        <button onClick={onClose} className="text-zinc-500 hover:text-white">✕</button>
+      </div>
+
+      {!done ? (
+        <>
+          <p className="text-[11px] text-zinc-400">
+            Touch target {index + 1} of {CALIBRATION_TARGETS.length} and hold still until it captures, or press Capture (Space) while the fingertip is on it.
+          </p>
+          <div className="flex gap-2">
+            <Button variant="primary" className="flex-1" onClick={captureNow}>Capture</Button>
+            <Button onClick={() => record(null)}>Skip</Button>
+            <Button disabled={index === 0} onClick={() => { setPairs(prev => prev.slice(0, -1)); historyRef.current = []; armedRef.current = true; }}>Back</Button>
+          </div>
+        </>
+      ) : result ? (
+        <div className="text-[11px] font-mono text-fuchsia-300">
+          Solved from {result.points} targets · error {result.errorPx.toFixed(1)}px
+        </div>
+      ) : (
+        <div className="text-[11px] font-mono text-red-400">
+          Need at least {MIN_CALIBRATION_POINTS} targets, not all in a line ({captured.length} captured).
+        </div>
+      )}
+
+      {error && <div className="text-[11px] text-red-400 font-mono">{error}</div>}
+      <div className="text-[10px] text-zinc-500">Recalibrate after moving the camera or changing zoom or rotation.</div>
+
+      <div className="flex gap-2 pt-1 border-t border-white/5">
+        <Button variant="ghost" className="flex-1" onClick={onClose}>Cancel</Button>
+        {done && <Button className="flex-1" onClick={restart}>Redo</Button>}
+        <Button variant="primary" className="flex-1" disabled={!result} onClick={() => { if (result) { onSave(result); onClose(); } }}>
+          Save
+        </Button>
+      </div>
+    </div>
+  );
+};
@@ -1,12 +1,26 @@
 
-import React, { useEffect, useRef, useState } from 'react';
-import { AppSettings, CircleConfig, CircleRuntime } from '../types';
+import React, { useCallback, useEffect, useRef } from 'react';
+import { AppSettings, CameraCalibration as CameraCalibrationResult, CircleConfig, CircleRuntime, TouchPlane } from '../types';
 import { useHandTracking } from '../hooks/useHandTracking';
 import { useWebSocketFeed } from '../hooks/useWebSocketFeed';
 import { useCanvasInput } from '../hooks/useCanvasInput';
-import { updateCirclePhysics } from '../utils/physicsLogic';
+import { ZoneContextMenu } from './ZoneContextMenu';
+import { TouchCalibration, TouchCalibrationPreview } from './TouchCalibration';
+import { CameraCalibration } from './CameraCalibration';
+import { CalibrationOverlay } from '../utils/cameraCalibration';
+import { useZoneEventOutput } from '../hooks/useZoneEventOutput';
+import { useMidiOutput } from '../hooks/useMidiOutput';
+import { useZoneAudio } from '../hooks/useZoneAudio';
+import { createCircleRuntime, updateCirclePhysics } from '../utils/physicsLogic';
 import { drawScene } from '../utils/canvasRenderer';
-import { isGif, normalizeUrl } from '../utils';
+import { zoneEventBus } from '../utils/zoneEvents';
+import { statusBoard } from '../utils/statusBoard';
+import { metrics } from '../utils/metrics';
+import { audioEngine, videoVoiceId, zoneVoiceConfig } from '../utils/audioEngine';
+import { zoneExtent } from '../utils/zoneShape';
+import { getCanvasSize, isGif, normalizeUrl } from '../utils';
+
+const MAX_FRAME_DT = 0.1; // Seconds
 
 interface CanvasLayerProps {
   settings: AppSettings;
@@ -14,9 +28,17 @@ interface CanvasLayerProps {
   setCircles: React.Dispatch<React.SetStateAction<CircleConfig[]>>;
   editingId: string | null;
   backgroundImage: HTMLImageElement | null;
-  onStatsUpdate: (stats: string) => void;
   setEditingId: (id: string | null) => void;
+  selectedIds: string[];
+  setSelection: (ids: string[]) => void;
   isPaused?: boolean;
+  onRemoteScene?: (name: string) => void;
+  isCalibratingTouch?: boolean;
+  onSaveTouchPlane?: (plane: TouchPlane) => void;
+  onCloseTouchCalibration?: () => void;
+  isCalibratingCamera?: boolean;
+  onSaveCameraCalibration?: (calibration: CameraCalibrationResult) => void;
+  onCloseCameraCalibration?: () => void;
 }
 
 const CanvasLayer: React.FC<CanvasLayerProps> = ({
@@ -25,49 +47,69 @@ const CanvasLayer: React.FC<CanvasLayerProps> = ({
   setCircles,
   editingId,
   backgroundImage,
-  onStatsUpdate,
   setEditingId,
-  isPaused = false
+  selectedIds,
+  setSelection,
+  isPaused = false,
+  onRemoteScene,
+  isCalibratingTouch = false,
+  onSaveTouchPlane,
+  onCloseTouchCalibration,
+  isCalibratingCamera = false,
+  onSaveCameraCalibration,
+  onCloseCameraCalibration
 }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const videoRef = useRef<HTMLVideoElement>(null);
   
-  const [cameraError, setCameraError] = useState<string | null>(null);
   const runtimeRef = useRef<Map<string, CircleRuntime>>(new Map());
+  const prevCirclesRef = useRef<CircleConfig[]>(circles); // Names of zones that have since been removed
   const pulseRef = useRef<number>(0);
+  const lastFrameRef = useRef<number | null>(null);
+  const touchPreviewRef = useRef<TouchCalibrationPreview | null>(null);
+  const setTouchPreview = useCallback((p: TouchCalibrationPreview | null) => { touchPreviewRef.current = p; }, []);
+  const cameraTargetsRef = useRef<CalibrationOverlay | null>(null);
+  const setCameraTargets = useCallback((o: CalibrationOverlay | null) => { cameraTargetsRef.current = o; }, []);
 
   // --- Hooks ---
-  const { analyzeFrame, landmarksRef, tipRef } = useHandTracking(onStatsUpdate, settings, canvasRef);
+  const { analyzeFrame, handsRef } = useHandTracking(settings, canvasRef);
 
   const wsFeed = useWebSocketFeed({
       url: settings.wsUrl,
       isActive: settings.cameraType === 'professional' && !isPaused,
-      onStats: onStatsUpdate,
       targetIp: settings.cameraIp,
-      streamMode: settings.streamMode
+      streamMode: settings.streamMode,
+      depthMap: settings.depthMapEnabled,
+      onSceneCommand: onRemoteScene
+  });
+
+  useZoneEventOutput({
+      bus: zoneEventBus,
+      url: settings.eventsWsUrl,
+      isActive: settings.eventsEnabled,
+      format: settings.eventsFormat
   });
 
-  const inputHandlers = useCanvasInput({ canvasRef, settings, circles, setCircles, editingId, setEditingId });
+  useMidiOutput({ bus: zoneEventBus, outputId: settings.midiOutputId, circles });
+  useZoneAudio({ engine: audioEngine, bus: zoneEventBus, settings, circles });
+
+  const inputHandlers = useCanvasInput({ canvasRef, settings, circles, setCircles, editingId, setEditingId, selectedIds, setSelection });
+  const menuZone = inputHandlers.contextMenu && circles.find(c => c.id === inputHandlers.contextMenu!.id);
 
   // Runtime Media Sync
   useEffect(() => {
     circles.forEach(c => {
       if (!runtimeRef.current.has(c.id)) {
-        runtimeRef.current.set(c.id, {
-           isFilled: false, wasFilled: false, graceLeft: 0, lastAngle: null,
-           cwAccum: 0, rotAngle: 0, lastCWTime: 0, isHandInside: false,
-           imgEl: null, audioEl: null, gifAnim: null, gifCanvas: null
-        });
+        runtimeRef.current.set(c.id, createCircleRuntime());
       }
       
       const rt = runtimeRef.current.get(c.id)!;
       const nImg = c.imgPath ? normalizeUrl(c.imgPath) : '';
-      const nAud = c.audioPath ? normalizeUrl(c.audioPath) : '';
 
       if (nImg && (!rt.imgEl || rt.imgEl.src !== nImg)) {
          if (isGif(nImg) && window.gifler) {
              rt.imgEl = null; rt.gifCanvas = document.createElement('canvas');
-             rt.gifCanvas.width = c.radius * 2; rt.gifCanvas.height = c.radius * 2;
+             rt.gifCanvas.width = zoneExtent(c) * 2; rt.gifCanvas.height = zoneExtent(c) * 2;
              if(rt.gifAnim) rt.gifAnim.stop();
              window.gifler(nImg).frames(rt.gifCanvas, (ctx: any, frame: any) => {
                  ctx.clearRect(0, 0, rt.gifCanvas!.width, rt.gifCanvas!.height);
@@ -79,28 +121,59 @@ const CanvasLayer: React.FC<CanvasLayerProps> = ({
          }
       }
 
-      if (nAud && (!rt.audioEl || rt.audioEl.src !== nAud)) {
-          if(rt.audioEl) rt.audioEl.pause();
-          rt.audioEl = new Audio(nAud); rt.audioEl.crossOrigin = "anonymous"; rt.audioEl.loop = true;
+      // An element routed into the audio graph can't be unrouted, so a change of
+      // url or soundtrack setting gets a fresh element
+      const nVideo = c.videoPath ? normalizeUrl(c.videoPath) : '';
+      const videoKey = nVideo ? `${nVideo}|${!!c.videoAudio}` : '';
+      if (videoKey !== rt.videoKey) {
+         if (rt.videoEl) { rt.videoEl.pause(); rt.videoEl.removeAttribute('src'); rt.videoEl.load(); }
+         audioEngine.removeVoice(videoVoiceId(c.id));
+         rt.videoEl = null;
+         rt.videoKey = videoKey;
+         if (nVideo) {
+             const video = document.createElement('video');
+             video.crossOrigin = "anonymous";
+             video.playsInline = true;
+             video.preload = 'auto';
+             video.muted = !c.videoAudio;
+             video.src = nVideo;
+             rt.videoEl = video;
+             if (rt.isFilled) video.play().catch(()=>{});
+         }
+      }
+      if (rt.videoEl) {
+         rt.videoEl.loop = (c.videoMode || 'loop') === 'loop';
+         if (c.videoAudio) {
+             audioEngine.setVoice(videoVoiceId(c.id), { ...zoneVoiceConfig(c, nVideo, settings), playToEnd: c.videoMode === 'once' }, rt.videoEl);
+         }
       }
-      if (rt.audioEl) rt.audioEl.volume = c.volume ?? 1.0;
     });
 
     const cIds = new Set(circles.map(c => c.id));
-    for (const id of runtimeRef.current.keys()) {
+    for (const [id, rt] of runtimeRef.current) {
         if (!cIds.has(id)) {
-            const rt = runtimeRef.current.get(id);
-            if(rt?.audioEl) rt.audioEl.pause();
+            // Delete, undo or a scene switch: let every consumer drop a latched cue
+            if (rt.isFilled || rt.wasFilled) {
+                const name = prevCirclesRef.current.find(c => c.id === id)?.name || '';
+                zoneEventBus.emit({ type: 'zone_released', circleId: id, circleName: name, progress: rt.progress, time: performance.now() });
+            }
+            if (rt.videoEl) rt.videoEl.pause();
+            audioEngine.removeVoice(videoVoiceId(id));
             runtimeRef.current.delete(id);
         }
     }
-  }, [circles]);
+    prevCirclesRef.current = circles;
+  }, [circles, settings.baseShortSide, settings.aspect, settings.audioFadeInMs, settings.audioFadeOutMs]);
 
   // Animation Loop
   useEffect(() => {
       let rafId: number;
       const loop = () => {
           const now = performance.now();
+          metrics.frame(now);
+          // Clamp so a stalled/background tab doesn't jump media rotation on resume
+          const dt = lastFrameRef.current === null ? 0 : Math.min((now - lastFrameRef.current) / 1000, MAX_FRAME_DT);
+          lastFrameRef.current = now;
           const canvas = canvasRef.current;
           if (!canvas) { rafId = requestAnimationFrame(loop); return; }
           
@@ -108,38 +181,41 @@ const CanvasLayer: React.FC<CanvasLayerProps> = ({
           if (!ctx) { rafId = requestAnimationFrame(loop); return; }
 
           let src: HTMLVideoElement | HTMLCanvasElement | null = null;
-          let rHands = null; let dep = 0; let err = cameraError;
+          let rHands = null; let dep = 0;
 
           if (settings.cameraType === 'professional') {
               src = wsFeed.feedCanvas; rHands = wsFeed.hands; dep = wsFeed.depthMm;
-              if (!wsFeed.isConnected) err = "CONNECTING...";
           } else if (videoRef.current && videoRef.current.readyState >= 2) {
               src = videoRef.current;
           }
 
-          const s = settings;
-          let tw = s.baseShortSide; let th = s.baseShortSide;
-          const [aw, ah] = s.aspect;
-          if (aw > ah) tw = Math.round(th * (aw/ah)); else th = Math.round(tw * (ah/aw));
+          const { width: tw, height: th } = getCanvasSize(settings);
           
           if (canvas.width !== tw || canvas.height !== th) { canvas.width = tw; canvas.height = th; }
 
           if (src) analyzeFrame(src, now, rHands);
 
           pulseRef.current = (Math.sin(now / 300) + 1) * 0.5;
-          updateCirclePhysics(circles, runtimeRef.current, tipRef.current, settings, dep, now, tw, th);
+          // Touching alignment targets shouldn't fire the zones underneath them
+          if (!cameraTargetsRef.current) {
+              updateCirclePhysics(circles, runtimeRef.current, handsRef.current, settings, dep, wsFeed.depthMapRef.current, now, dt, tw, th, zoneEventBus.emit);
+          }
 
+          // While calibrating, the candidate plane is drawn in place of the saved one
+          const touchPreview = touchPreviewRef.current;
           drawScene({
-              ctx, width: tw, height: th, settings, circles, runtimeMap: runtimeRef.current,
-              editingId, backgroundImage, sourceCanvas: src, landmarks: landmarksRef.current,
-              tip: tipRef.current, depthMm: dep, pulseVal: pulseRef.current, cameraError: err
+              ctx, width: tw, height: th, settings: touchPreview?.plane ? { ...settings, touchPlane: touchPreview.plane } : settings, circles, runtimeMap: runtimeRef.current,
+              editingId, selectedIds, editOverlay: inputHandlers.overlayRef.current, backgroundImage, sourceCanvas: src, hands: handsRef.current,
+              depthMm: dep, pulseVal: pulseRef.current, status: statusBoard.list(), now,
+              draggingPointIndex: inputHandlers.draggingPointIndex, touchSamples: touchPreview?.samples,
+              calibrationOverlay: cameraTargetsRef.current || undefined
           });
 
           rafId = requestAnimationFrame(loop);
       };
       rafId = requestAnimationFrame(loop);
       return () => cancelAnimationFrame(rafId);
-  }, [settings, circles, editingId, backgroundImage, cameraError, wsFeed]);
+  }, [settings, circles, editingId, selectedIds, backgroundImage, wsFeed, inputHandlers.draggingPointIndex]);
 
   // Local Camera Init
   useEffect(() => {
@@ -148,11 +224,15 @@ const CanvasLayer: React.FC<CanvasLayerProps> = ({
               (videoRef.current.srcObject as MediaStream).getTracks().forEach(t => t.stop());
               videoRef.current.srcObject = null;
           }
+          statusBoard.report('camera', isPaused && settings.cameraType !== 'professional'
+              ? { severity: 'info', message: 'Camera paused', detail: 'Released while the bridge manager is open' }
+              : null);
           return;
       }
 
       let isM = true; let retryT: any;
       const init = async (att = 1) => {
+          if (att === 1) statusBoard.report('camera', { severity: 'info', message: 'Starting camera', detail: settings.deviceId || 'default device' });
           try {
               if (videoRef.current?.srcObject) (videoRef.current.srcObject as MediaStream).getTracks().forEach(t => t.stop());
               await new Promise(r => setTimeout(r, att === 1 ? 500 : 1500));
@@ -164,13 +244,20 @@ const CanvasLayer: React.FC<CanvasLayerProps> = ({
               if (videoRef.current) {
                   videoRef.current.srcObject = stream;
                   videoRef.current.onloadedmetadata = () => videoRef.current?.play();
-                  setCameraError(null);
+                  statusBoard.report('camera', null);
               }
+              // Unplugged or taken over by the OS
+              stream.getVideoTracks().forEach(t => t.addEventListener('ended', () => {
+                  if (isM) statusBoard.report('camera', { severity: 'error', message: 'Camera disconnected', detail: t.label });
+              }));
           } catch (e: any) {
-              if (isM && (e.name === 'NotReadableError' || e.name === 'TrackStartError')) {
-                  setCameraError(`Device busy. Retrying...`);
+              if (!isM) return;
+              if (e.name === 'NotReadableError' || e.name === 'TrackStartError') {
+                  statusBoard.report('camera', { severity: 'warning', message: 'Camera busy, retrying', detail: `${e.name}, attempt ${att}` });
                   retryT = setTimeout(() => init(att + 1), 100);
-              } else { setCameraError(`Error: ${e.name}`); }
+              } else {
+                  statusBoard.report('camera', { severity: 'error', message: 'Camera unavailable', detail: `${e.name}: ${e.message}` });
+              }
           }
       };
       init();
@@ -182,10 +269,12 @@ const CanvasLayer: React.FC<CanvasLayerProps> = ({
       <video ref={videoRef} className="hidden" playsInline muted />
       <canvas 
         ref={canvasRef} 
-        onMouseDown={inputHandlers.handleMouseDown}
-        onMouseMove={inputHandlers.handleMouseMove}
-        onMouseUp={inputHandlers.handleMouseUp}
-        onMouseLeave={inputHandlers.handleMouseUp}
+        onPointerDown={inputHandlers.handlePointerDown}
+        onPointerMove={inputHandlers.handlePointerMove}
+        onPointerUp={inputHandlers.handlePointerUp}
+        onPointerCancel={inputHandlers.handlePointerUp}
+        onContextMenu={inputHandlers.handleContextMenu}
+        onDoubleClick={inputHandlers.handleDoubleClick}
         style={{ 
             borderRadius: `${settings.borderRadius}px`, 
             overflow: 'hidden',
@@ -196,6 +285,36 @@ const CanvasLayer: React.FC<CanvasLayerProps> = ({
         }}
         className="max-w-full max-h-full shadow-2xl cursor-crosshair touch-none transition-[border-radius] duration-200 bg-transparent"
       />
+      {menuZone && inputHandlers.contextMenu && (
+        <ZoneContextMenu
+          clientX={inputHandlers.contextMenu.clientX}
+          clientY={inputHandlers.contextMenu.clientY}
+          zoneName={menuZone.name}
+          onDuplicate={() => inputHandlers.duplicateZone(menuZone.id)}
+          onBringToFront={() => inputHandlers.bringZoneToFront(menuZone.id)}
+          onDelete={() => inputHandlers.deleteZone(menuZone.id)}
+          onClose={inputHandlers.closeContextMenu}
+        />
+      )}
+      {isCalibratingTouch && onSaveTouchPlane && onCloseTouchCalibration && (
+        <TouchCalibration
+          settings={settings}
+          depthMapRef={wsFeed.depthMapRef}
+          handsRef={handsRef}
+          onPreview={setTouchPreview}
+          onSave={onSaveTouchPlane}
+          onClose={onCloseTouchCalibration}
+        />
+      )}
+      {isCalibratingCamera && onSaveCameraCalibration && onCloseCameraCalibration && (
+        <CameraCalibration
+          settings={settings}
+          handsRef={handsRef}
+          onPreview={setCameraTargets}
+          onSave={onSaveCameraCalibration}
+          onClose={onCloseCameraCalibration}
+        />
+      )}
     </div>
   );
 };
@@ -1,7 +1,15 @@
 
 import React, { useRef, useState, useEffect } from 'react';
-import { AppSettings, CircleConfig } from '../types';
-import { generateId, generateMeshPoints } from '../utils';
+import { AppSettings, CircleConfig, DEFAULT_ZONE_TUNING, TriggerMode, ZoneMidiMapping, ZoneShape, ZoneTuning } from '../types';
+import { generateId, generateMeshPoints, resolveZoneTuning } from '../utils';
+import { DEFAULT_MIDI_MAPPING, getMidiAccess } from '../utils/midi';
+import { useVirtualList } from '../hooks/useVirtualList';
+import { createZoneShape, MIN_ZONE_SIZE, resizeZone, zoneExtent } from '../utils/zoneShape';
+import { AlignEdge, alignZones, distributeZones } from '../utils/zoneArrange';
+import { metrics } from '../utils/metrics';
+import { MetricsHud } from './MetricsHud';
+import { describeFeedLink, FEED_LINK_COLORS, feedLink } from '../utils/feedLink';
+import { useFeedLink } from '../hooks/useFeedLink';
 import { 
   SectionLabel, PanelHeader, Slider, TextInput, Select, 
   Toggle, Button, ColorPicker, FileButton 
@@ -14,15 +22,59 @@ interface ControlPanelProps {
   setCircles: React.Dispatch<React.SetStateAction<CircleConfig[]>>;
   editingId: string | null;
   setEditingId: (id: string | null) => void;
+  selectedIds: string[];
+  setSelection: (ids: string[]) => void;
   onSaveLayout: () => void;
+  onSaveBundle: () => void;
+  history: { undo: () => void; redo: () => void; undoCount: number; redoCount: number };
+  scenes: string[];
+  activeScene: string | null;
+  onSaveScene: (name: string) => Promise<string[]>;
+  onSwitchScene: (name: string) => Promise<boolean>;
+  onDeleteScene: (name: string) => Promise<boolean>;
   onLoadLayout: (file: File) => void;
   onSaveDefault: () => void;
   backgroundImage: HTMLImageElement | null;
   setBackgroundImage: (img: HTMLImageElement | null) => void;
-  performanceStats: string;
+  onExportMetrics: (format: 'csv' | 'json') => void;
   onOpenBridge: () => void;
+  onCalibrateTouch: () => void;
+  onCalibrateCamera: () => void;
 }
 
+// Zone list rows are windowed; collapsed rows have a fixed height (h-11 header + 1px borders) plus mb-3
+const ZONE_ROW_HEIGHT = 46;
+const ZONE_ROW_GAP = 12;
+
+// Sensitivity sliders shared by the global defaults and the per-zone overrides
+const TUNING_FIELDS: { key: keyof ZoneTuning; label: string; min: number; max: number; step: number; format: (v: number) => string }[] = [
+  { key: 'rotateTargetDeg', label: 'Spin Target', min: 30, max: 720, step: 15, format: v => `${v}°` },
+  { key: 'stillEpsDeg', label: 'Jitter Filter', min: 0, max: 10, step: 0.5, format: v => `${v}°` },
+  { key: 'leaveMarginRatio', label: 'Leave Margin', min: 0, max: 0.5, step: 0.01, format: v => `${Math.round(v * 100)}%` },
+  { key: 'leaveGraceMs', label: 'Leave Grace', min: 0, max: 1000, step: 10, format: v => `${v}ms` },
+  { key: 'spinGraceMs', label: 'Spin Hold', min: 0, max: 10000, step: 100, format: v => `${v}ms` },
+  { key: 'rotSpeedDegPerSec', label: 'Media Spin', min: 0, max: 360, step: 5, format: v => `${v}°/s` }
+];
+
+const TuningSliders = ({ values, overridden, onChange }: {
+  values: ZoneTuning;
+  overridden?: (key: keyof ZoneTuning) => boolean;
+  onChange: (key: keyof ZoneTuning, value: number) => void;
+}) => (
+  <>
+    {TUNING_FIELDS.map(f => (
+      <Slider
+        key={f.key}
+        label={overridden && overridden(f.key) ? `${f.label} *` : f.label}
+        rightLabel={f.format(values[f.key])}
+        min={f.min} max={f.max} step={f.step}
+        value={values[f.key]}
+        onChange={(e) => onChange(f.key, Number(e.target.value))}
+      />
+    ))}
+  </>
+);
+
 const ControlPanel: React.FC<ControlPanelProps> = ({
   settings,
   setSettings,
@@ -30,19 +82,55 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
   setCircles,
   editingId,
   setEditingId,
+  selectedIds,
+  setSelection,
   onSaveLayout,
+  onSaveBundle,
+  history,
+  scenes,
+  activeScene,
+  onSaveScene,
+  onSwitchScene,
+  onDeleteScene,
   onLoadLayout,
   onSaveDefault,
   setBackgroundImage,
   backgroundImage,
-  performanceStats,
-  onOpenBridge
+  onExportMetrics,
+  onOpenBridge,
+  onCalibrateTouch,
+  onCalibrateCamera
 }) => {
   const [isOpen, setIsOpen] = useState(true);
+  const link = useFeedLink();
   const [showGlobalSettings, setShowGlobalSettings] = useState(true);
+  const [showTuning, setShowTuning] = useState(false);
   const [videoDevices, setVideoDevices] = useState<MediaDeviceInfo[]>([]);
+  const [midiOutputs, setMidiOutputs] = useState<MIDIOutput[]>([]);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const bgInputRef = useRef<HTMLInputElement>(null);
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const zoneListRef = useRef<HTMLDivElement>(null);
+  const editingRowRef = useRef<HTMLDivElement>(null);
+  const [editingRowHeight, setEditingRowHeight] = useState(ZONE_ROW_HEIGHT);
+
+  // --- Logic: Zone list windowing ---
+  const zoneWindow = useVirtualList({
+    scrollRef,
+    listRef: zoneListRef,
+    count: circles.length,
+    rowStride: ZONE_ROW_HEIGHT + ZONE_ROW_GAP,
+    expandedIndex: circles.findIndex(c => c.id === editingId),
+    expandedExtra: editingRowHeight - ZONE_ROW_HEIGHT
+  });
+
+  useEffect(() => {
+    const row = editingRowRef.current;
+    if (!row) return;
+    const observer = new ResizeObserver(() => setEditingRowHeight(row.offsetHeight));
+    observer.observe(row);
+    return () => observer.disconnect();
+  }, [editingId, zoneWindow.start, zoneWindow.end]);
 
   // --- Logic: Device Enumeration ---
   useEffect(() => {
@@ -64,6 +152,24 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
     };
   }, []);
 
+  // --- Logic: MIDI Enumeration ---
+  // Access is only requested once MIDI is in use (or the picker is opened),
+  // so installations without MIDI never see the browser permission prompt.
+  const [midiRequested, setMidiRequested] = useState(!!settings.midiOutputId);
+  useEffect(() => {
+    if (!midiRequested) return;
+    let access: MIDIAccess | null = null;
+    const refresh = () => setMidiOutputs(access ? Array.from(access.outputs.values()) : []);
+    getMidiAccess().then(a => {
+        access = a;
+        if (!access) return;
+        refresh();
+        access.addEventListener('statechange', refresh);
+    });
+    return () => { access?.removeEventListener('statechange', refresh); };
+  }, [midiRequested]);
+  useEffect(() => { if (settings.midiOutputId) setMidiRequested(true); }, [settings.midiOutputId]);
+
   // --- Logic: Helpers ---
   const updateSetting = <K extends keyof AppSettings>(key: K, value: AppSettings[K]) => {
     setSettings(prev => ({ ...prev, [key]: value }));
@@ -73,8 +179,21 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
     setCircles(prev => prev.map(c => c.id === id ? { ...c, ...updates } : c));
   };
 
+  const updateMidi = (circle: CircleConfig, updates: Partial<ZoneMidiMapping>) => {
+    updateCircle(circle.id, { midi: { ...DEFAULT_MIDI_MAPPING, ...circle.midi, ...updates } });
+  };
+
+  // Shift-click a row to add or remove it from the multi-selection
+  const handleRowClick = (e: React.MouseEvent, id: string) => {
+    if (!e.shiftKey) { setEditingId(id); return; }
+    setSelection(selectedIds.includes(id) ? selectedIds.filter(i => i !== id) : [...selectedIds, id]);
+  };
+
+  const selection = selectedIds.filter(id => circles.some(c => c.id === id));
+  const alignSelection = (edge: AlignEdge) => setCircles(prev => alignZones(prev, selection, edge));
+  const distributeSelection = (axis: 'x' | 'y') => setCircles(prev => distributeZones(prev, selection, axis));
+
   const addCircle = () => {
-    if (circles.length >= 8) return;
     const newCircle: CircleConfig = {
       id: generateId(),
       name: `Link ${circles.length + 1}`,
@@ -106,6 +225,28 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
     e.target.value = '';
   };
 
+  const handleSaveScene = async () => {
+    const name = prompt("Scene name", activeScene || `Scene ${scenes.length + 1}`)?.trim();
+    if (!name) return;
+    if (name !== activeScene && scenes.includes(name) && !confirm(`Replace scene "${name}"?`)) return;
+    try {
+      const failed = await onSaveScene(name);
+      if (failed.length > 0) alert(`Scene saved, but these files are kept as links:\n${failed.join('\n')}`);
+    } catch (e) {
+      console.error(e);
+      alert("Failed to save scene to browser storage.");
+    }
+  };
+
+  const handleSwitchScene = async (name: string) => {
+    if (name && !(await onSwitchScene(name))) alert(`Scene "${name}" could not be loaded. See console for details.`);
+  };
+
+  const handleDeleteScene = async (name: string) => {
+    if (!confirm(`Delete scene "${name}"?`)) return;
+    if (!(await onDeleteScene(name))) alert(`Scene "${name}" could not be deleted. See console for details.`);
+  };
+
   const updateMeshPoints = (count: number) => {
       updateSetting('mappingPoints', generateMeshPoints(count));
       updateSetting('mappingEnabled', true);
@@ -116,9 +257,7 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
   return (
     <>
       {/* HUD Stats */}
-      <div className="fixed left-4 top-4 z-40 bg-zinc-950/60 backdrop-blur-md text-cyan-400 px-4 py-2 rounded-sm font-tech text-xs border-l-2 border-cyan-500 shadow-lg select-none pointer-events-none">
-        {performanceStats}
-      </div>
+      <MetricsHud />
 
       {/* Top Right Controls */}
       <div className="fixed top-4 right-4 z-50 flex items-center gap-3">
@@ -143,7 +282,7 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
       <div 
         className={`fixed top-0 right-0 h-full w-80 bg-black/80 backdrop-blur-2xl border-l border-white/10 shadow-2xl z-40 transform transition-transform duration-500 cubic-bezier(0.19, 1, 0.22, 1) ${isOpen ? 'translate-x-0' : 'translate-x-full'}`}
       >
-        <div className="h-full overflow-y-auto p-6 pt-20 scrollbar-thin">
+        <div ref={scrollRef} className="h-full overflow-y-auto p-6 pt-20 scrollbar-thin">
             <PanelHeader title="SYSTEM CORE" version="V2.1" />
             
             {/* Global Settings Toggle */}
@@ -190,6 +329,18 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
                                 ))}
                             </Select>
                         )}
+                        <div className="mt-2">
+                            <Select 
+                                value={settings.midiOutputId}
+                                onFocus={() => setMidiRequested(true)}
+                                onChange={(e) => updateSetting('midiOutputId', e.target.value)}
+                            >
+                                <option value="">MIDI Out: Off</option>
+                                {midiOutputs.map(o => (
+                                    <option key={o.id} value={o.id}>MIDI Out: {o.name || o.id}</option>
+                                ))}
+                            </Select>
+                        </div>
                         {settings.cameraType === 'professional' && (
                             <div className="bg-cyan-900/20 p-2 rounded border border-cyan-800/50 space-y-2">
                                 <div className="grid grid-cols-3 gap-2">
@@ -230,13 +381,48 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
                                     </div>
                                 </div>
 
-                                <Slider 
-                                    label="Z-Trigger (mm)" 
-                                    rightLabel={`${settings.depthTriggerMm}mm`} 
-                                    min="200" max="2500" step="50"
-                                    value={settings.depthTriggerMm} 
-                                    onChange={(e) => updateSetting('depthTriggerMm', Number(e.target.value))} 
-                                />
+                                {settings.touchPlane ? (
+                                    <>
+                                        <Slider
+                                            label="Touch Distance"
+                                            rightLabel={`${settings.touchDistanceMm}mm`}
+                                            min="10" max="300" step="5"
+                                            value={settings.touchDistanceMm}
+                                            onChange={(e) => updateSetting('touchDistanceMm', Number(e.target.value))}
+                                        />
+                                        <div className="flex items-center justify-between gap-2 text-[10px] font-mono text-emerald-400">
+                                            <span>PLANE ±{settings.touchPlane.rmsMm.toFixed(1)}mm · {settings.touchPlane.samples} pts</span>
+                                            <Button variant="ghost" onClick={() => updateSetting('touchPlane', null)} className="!py-0.5 !px-2 text-[10px]">Clear</Button>
+                                        </div>
+                                    </>
+                                ) : (
+                                    <Slider 
+                                        label="Z-Trigger (mm)" 
+                                        rightLabel={`${settings.depthTriggerMm}mm`} 
+                                        min="200" max="2500" step="50"
+                                        value={settings.depthTriggerMm} 
+                                        onChange={(e) => updateSetting('depthTriggerMm', Number(e.target.value))} 
+                                    />
+                                )}
+                                <Button onClick={onCalibrateTouch} className="w-full text-[10px] !py-1">
+                                    {settings.touchPlane ? 'Recalibrate Touch Surface' : 'Calibrate Touch Surface'}
+                                </Button>
+                                <Toggle label="Depth Map (zone windows)" checked={settings.depthMapEnabled} onChange={(v) => updateSetting('depthMapEnabled', v)} />
+                                {settings.depthMapEnabled && (
+                                    <Slider
+                                        label="Min Occupied Pixels"
+                                        rightLabel={settings.depthMinPixels.toString()}
+                                        min="1" max="200"
+                                        value={settings.depthMinPixels}
+                                        onChange={(e) => updateSetting('depthMinPixels', Number(e.target.value))}
+                                    />
+                                )}
+                                <div className="flex items-center justify-between gap-2 text-[10px] font-mono">
+                                    <span className={FEED_LINK_COLORS[link.phase]} title={link.lastError || undefined}>FEED {describeFeedLink(link)}</span>
+                                    {link.phase !== 'live' && link.phase !== 'idle' && (
+                                        <Button onClick={feedLink.retry} className="!py-0.5 !px-2 text-[10px]">Retry Now</Button>
+                                    )}
+                                </div>
                                 <div className="text-[10px] text-cyan-400/50 font-mono text-center">
                                     Supports Femto Bolt & Mega
                                 </div>
@@ -292,6 +478,13 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
                         </div>
                         <Slider label="Border Radius" rightLabel={`${settings.borderRadius}px`} min="0" max="200" value={settings.borderRadius} onChange={(e) => updateSetting('borderRadius', Number(e.target.value))} />
                         <Slider label="Global Zoom" rightLabel={`${settings.scale.toFixed(1)}x`} min="0.5" max="2.0" step="0.1" value={settings.scale} onChange={(e) => updateSetting('scale', Number(e.target.value))} />
+                        <div className="mt-3">
+                            <Select value={settings.statusOverlay} onChange={(e) => updateSetting('statusOverlay', e.target.value as AppSettings['statusOverlay'])}>
+                                <option value="operator">Status: Operator Detail</option>
+                                <option value="public">Status: Summary Only</option>
+                                <option value="hidden">Status: Hidden (Log Only)</option>
+                            </Select>
+                        </div>
                     </div>
 
                     {/* Mapping */}
@@ -310,6 +503,7 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
                                 ))}
                             </div>
                         </div>
+                        <Toggle label="Apply Warp" checked={settings.mappingEnabled} onChange={(v) => updateSetting('mappingEnabled', v)} />
                         <Button 
                             variant={settings.isMappingEdit ? 'primary' : 'secondary'}
                             onClick={() => updateSetting('isMappingEdit', !settings.isMappingEdit)}
@@ -319,6 +513,24 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
                         </Button>
                     </div>
 
+                    {/* Camera alignment */}
+                    <div className="bg-zinc-900/40 border border-white/5 p-3 rounded-lg space-y-2">
+                        <div className="flex justify-between items-center">
+                            <span className="font-tech text-xs text-zinc-400">CAMERA ALIGNMENT</span>
+                            {settings.cameraCalibration && (
+                                <Button variant="ghost" onClick={() => updateSetting('cameraCalibration', null)} className="!py-0.5 !px-2 text-[10px]">Clear</Button>
+                            )}
+                        </div>
+                        <div className="text-[10px] font-mono text-zinc-500">
+                            {settings.cameraCalibration
+                                ? <span className="text-fuchsia-300">Calibrated · {settings.cameraCalibration.points} targets · ±{settings.cameraCalibration.errorPx.toFixed(1)}px</span>
+                                : 'Manual (mirror + rotation)'}
+                        </div>
+                        <Button onClick={onCalibrateCamera} className="w-full text-[10px] uppercase">
+                            {settings.cameraCalibration ? 'Recalibrate Camera' : 'Calibrate Camera'}
+                        </Button>
+                    </div>
+
                     {/* Toggles */}
                     <div className="grid grid-cols-2 gap-x-4 gap-y-2">
                          <Toggle label="Camera Feed" checked={settings.showCamera} onChange={(v) => updateSetting('showCamera', v)} />
@@ -326,49 +538,168 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
                          <Toggle label="Skeleton" checked={settings.drawSkeleton} onChange={(v) => updateSetting('drawSkeleton', v)} />
                          <Toggle label="Dual Hands" checked={settings.maxHands === 2} onChange={(v) => updateSetting('maxHands', v ? 2 : 1)} />
                     </div>
+
+                    {/* Audio Mix */}
+                    <div>
+                        <SectionLabel>Audio Mix</SectionLabel>
+                        <Slider label="Master" rightLabel={`${Math.round(settings.masterVolume * 100)}%`} min="0" max="1" step="0.05" value={settings.masterVolume} onChange={(e) => updateSetting('masterVolume', Number(e.target.value))} />
+                        <div className="grid grid-cols-2 gap-2">
+                            <Slider label="Fade In" rightLabel={`${settings.audioFadeInMs}ms`} min="0" max="5000" step="50" value={settings.audioFadeInMs} onChange={(e) => updateSetting('audioFadeInMs', Number(e.target.value))} />
+                            <Slider label="Fade Out" rightLabel={`${settings.audioFadeOutMs}ms`} min="0" max="5000" step="50" value={settings.audioFadeOutMs} onChange={(e) => updateSetting('audioFadeOutMs', Number(e.target.value))} />
+                        </div>
+                        <Toggle label="Duck Other Zones" checked={settings.audioDucking} onChange={(v) => updateSetting('audioDucking', v)} />
+                        {settings.audioDucking && (
+                            <Slider label="Duck Level" rightLabel={`${Math.round(settings.audioDuckLevel * 100)}%`} min="0" max="1" step="0.05" value={settings.audioDuckLevel} onChange={(e) => updateSetting('audioDuckLevel', Number(e.target.value))} />
+                        )}
+                        <div className="flex gap-2 mt-2">
+                            <TextInput placeholder="Ambient bed URL..." value={settings.ambientPath} onChange={(e) => updateSetting('ambientPath', e.target.value)} />
+                            <FileButton accept="audio/*" onFileSelect={(f) => updateSetting('ambientPath', URL.createObjectURL(f))} />
+                        </div>
+                        {settings.ambientPath && (
+                            <Slider className="mt-2" label="Ambient" rightLabel={`${Math.round(settings.ambientVolume * 100)}%`} min="0" max="1" step="0.05" value={settings.ambientVolume} onChange={(e) => updateSetting('ambientVolume', Number(e.target.value))} />
+                        )}
+                    </div>
+
+                    {/* Event Output */}
+                    <div>
+                        <SectionLabel>Event Output</SectionLabel>
+                        <Toggle label="Publish Zone Events" checked={settings.eventsEnabled} onChange={(v) => updateSetting('eventsEnabled', v)} />
+                        {settings.eventsEnabled && (
+                            <div className="grid grid-cols-3 gap-2 mt-2">
+                                <div className="col-span-2">
+                                    <TextInput 
+                                        value={settings.eventsWsUrl} 
+                                        onChange={(e) => updateSetting('eventsWsUrl', e.target.value)} 
+                                        placeholder="ws://localhost:8766"
+                                    />
+                                </div>
+                                <Select value={settings.eventsFormat} onChange={(e) => updateSetting('eventsFormat', e.target.value as AppSettings['eventsFormat'])}>
+                                    <option value="json">JSON</option>
+                                    <option value="osc">OSC</option>
+                                </Select>
+                            </div>
+                        )}
+                    </div>
+
+                    {/* Telemetry */}
+                    <div>
+                        <SectionLabel>Telemetry Report</SectionLabel>
+                        <div className="flex gap-2">
+                            <Button onClick={() => onExportMetrics('csv')} className="flex-1 text-[10px]">CSV</Button>
+                            <Button onClick={() => onExportMetrics('json')} className="flex-1 text-[10px]">JSON</Button>
+                            <Button onClick={() => { if (confirm("Clear recorded telemetry and start a new run?")) metrics.reset(); }} className="flex-1 text-[10px]">Reset</Button>
+                        </div>
+                        <div className="text-[10px] text-zinc-500 font-mono mt-2">Per-second rows, last hour</div>
+                    </div>
+
+                    {/* Interaction Defaults */}
+                    <div>
+                        <SectionLabel>Interaction Defaults</SectionLabel>
+                        <TuningSliders
+                            values={{ ...DEFAULT_ZONE_TUNING, ...settings.zoneDefaults }}
+                            onChange={(key, value) => updateSetting('zoneDefaults', { ...DEFAULT_ZONE_TUNING, ...settings.zoneDefaults, [key]: value })}
+                        />
+                    </div>
                 </div>
             )}
             
             <div className="my-6 border-t border-white/10" />
 
+            {/* Scenes */}
+            <div className="mb-6">
+                <SectionLabel>Scenes</SectionLabel>
+                <Select value={activeScene || ''} onChange={(e) => handleSwitchScene(e.target.value)}>
+                    <option value="" disabled>{scenes.length ? 'Select scene...' : 'No saved scenes'}</option>
+                    {scenes.map((name, i) => (
+                        <option key={name} value={name}>{i < 9 ? `${i + 1}. ` : ''}{name}</option>
+                    ))}
+                </Select>
+                <div className="flex gap-2 mt-2">
+                    <Button onClick={handleSaveScene} className="flex-1 text-[10px]">{activeScene ? 'Save Scene' : 'Save As Scene'}</Button>
+                    {activeScene && (
+                        <Button variant="danger" onClick={() => handleDeleteScene(activeScene)} className="text-[10px]">✕</Button>
+                    )}
+                </div>
+                <div className="text-[10px] text-zinc-500 font-mono mt-2">Alt+1…9 / Alt+PgUp/PgDn to switch</div>
+            </div>
+
             {/* Interaction Zones Header */}
             <div className="flex items-center justify-between mb-4">
                  <PanelHeader title="ZONES" />
-                 <Button variant="primary" onClick={addCircle} disabled={circles.length >= 8} className="!py-1 !px-2 !text-[10px]">
+                 <Button variant="primary" onClick={addCircle} className="!py-1 !px-2 !text-[10px]">
                     + ADD
                  </Button>
             </div>
 
+            {/* History */}
+            <div className="flex items-center gap-2 mb-3">
+                <Button onClick={history.undo} disabled={history.undoCount === 0} className="flex-1 text-[10px]" title="Ctrl+Z">↶ Undo</Button>
+                <Button onClick={history.redo} disabled={history.redoCount === 0} className="flex-1 text-[10px]" title="Ctrl+Shift+Z">↷ Redo</Button>
+                <span className="text-[10px] text-zinc-500 font-mono whitespace-nowrap">{history.undoCount} / {history.redoCount}</span>
+            </div>
+
             {/* Action Buttons */}
             <div className="flex gap-2 mb-6">
                 <Button onClick={onSaveDefault} className="flex-1 text-[10px]">Save Default</Button>
                 <Button onClick={onSaveLayout} className="flex-1 text-[10px]">Export</Button>
+                <Button onClick={onSaveBundle} className="flex-1 text-[10px]">Bundle</Button>
                 <Button onClick={() => fileInputRef.current?.click()} className="flex-1 text-[10px]">Import</Button>
                 <input type="file" ref={fileInputRef} hidden accept=".js,.json" onChange={(e) => handleFilePick(e, 'layout')} />
             </div>
 
+            {/* Arrange */}
+            <div className="mb-6 space-y-3">
+                <div className="grid grid-cols-2 gap-x-4">
+                    <Toggle label="Snap to Grid" checked={settings.snapToGrid} onChange={(v) => updateSetting('snapToGrid', v)} />
+                    <Toggle label="Snap to Zones" checked={settings.snapToZones} onChange={(v) => updateSetting('snapToZones', v)} />
+                </div>
+                {settings.snapToGrid && (
+                    <Slider label="Grid Size" rightLabel={`${settings.gridSize}px`} min="5" max="200" step="5" value={settings.gridSize} onChange={(e) => updateSetting('gridSize', Number(e.target.value))} />
+                )}
+                {selection.length > 1 && (
+                    <div className="space-y-2">
+                        <div className="text-[10px] text-cyan-400 font-mono">{selection.length} zones selected</div>
+                        <div className="grid grid-cols-6 gap-1">
+                            {([['left', '⇤'], ['center', '↔'], ['right', '⇥'], ['top', '⤒'], ['middle', '↕'], ['bottom', '⤓']] as [AlignEdge, string][]).map(([edge, icon]) => (
+                                <Button key={edge} onClick={() => alignSelection(edge)} className="!px-0 text-[12px]" title={`Align ${edge}`}>{icon}</Button>
+                            ))}
+                        </div>
+                        <div className="flex gap-2">
+                            <Button onClick={() => distributeSelection('x')} disabled={selection.length < 3} className="flex-1 text-[10px]">Distribute H</Button>
+                            <Button onClick={() => distributeSelection('y')} disabled={selection.length < 3} className="flex-1 text-[10px]">Distribute V</Button>
+                        </div>
+                    </div>
+                )}
+                <div className="text-[10px] text-zinc-500 font-mono">Shift+click / drag to select · Arrows nudge · Alt skips snap</div>
+            </div>
+
             {/* Zones List */}
-            <div className="space-y-3 pb-12">
+            <div ref={zoneListRef} className="pb-12">
                 {circles.length === 0 && (
                     <div className="py-8 text-center border-2 border-dashed border-zinc-800 rounded-xl">
                         <p className="text-zinc-600 font-mono text-xs">NO ACTIVE ZONES</p>
                     </div>
                 )}
                 
-                {circles.map((circle, index) => {
+                <div style={{ height: zoneWindow.padTop }} />
+                {circles.slice(zoneWindow.start, zoneWindow.end).map((circle) => {
                     const isEditing = editingId === circle.id;
+                    const isSelected = !isEditing && selection.includes(circle.id);
                     return (
                         <div 
                             key={circle.id}
-                            onClick={() => setEditingId(circle.id)}
-                            className={`relative rounded-xl border transition-all duration-300 overflow-hidden ${
+                            ref={isEditing ? editingRowRef : undefined}
+                            onClick={(e) => handleRowClick(e, circle.id)}
+                            className={`relative mb-3 rounded-xl border transition-all duration-300 overflow-hidden ${
                                 isEditing 
                                 ? 'bg-zinc-900 border-cyan-500/50 shadow-[0_0_20px_rgba(6,182,212,0.1)]' 
+                                : isSelected
+                                ? 'bg-zinc-900/60 border-cyan-500/30'
                                 : 'bg-zinc-900/30 border-white/5 hover:bg-zinc-900/60'
                             }`}
                         >
                              {/* Header */}
-                             <div className="flex items-center justify-between p-3">
+                             <div className="flex items-center justify-between px-3 h-11">
                                  <div className="flex items-center gap-2">
                                      <div className="w-2 h-2 rounded-full" style={{ backgroundColor: circle.color }}></div>
                                      {isEditing ? (
@@ -397,11 +728,138 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
                                      
                                      {/* Geometry */}
                                      <div className="space-y-2">
-                                         <Slider label="Radius" rightLabel={circle.radius.toString()} min="10" max="250" value={circle.radius} onChange={(e) => updateCircle(circle.id, { radius: Number(e.target.value) })} />
+                                         <Select value={circle.shape?.kind || 'circle'} onChange={(e) => updateCircle(circle.id, { shape: createZoneShape(e.target.value as ZoneShape['kind'], circle) })}>
+                                             <option value="circle">Circle</option>
+                                             <option value="rect">Rectangle</option>
+                                             <option value="ring">Ring</option>
+                                             <option value="polygon">Polygon</option>
+                                         </Select>
+                                         {(!circle.shape || circle.shape.kind === 'circle' || circle.shape.kind === 'ring') && (
+                                             <Slider label="Radius" rightLabel={Math.round(circle.radius).toString()} min="10" max="250" value={circle.radius} onChange={(e) => updateCircle(circle.id, resizeZone(circle, Number(e.target.value) - circle.radius))} />
+                                         )}
+                                         {circle.shape?.kind === 'ring' && (
+                                             <Slider label="Inner Radius" rightLabel={Math.round(circle.shape.innerRadius).toString()} min="0" max={Math.max(0, circle.radius - MIN_ZONE_SIZE)} value={circle.shape.innerRadius} onChange={(e) => updateCircle(circle.id, { shape: { kind: 'ring', innerRadius: Number(e.target.value) } })} />
+                                         )}
+                                         {circle.shape?.kind === 'rect' && (() => {
+                                             const shape = circle.shape;
+                                             return (
+                                                 <>
+                                                     <Slider label="Width" rightLabel={Math.round(shape.width).toString()} min="20" max="800" value={shape.width} onChange={(e) => updateCircle(circle.id, { shape: { ...shape, width: Number(e.target.value) } })} />
+                                                     <Slider label="Height" rightLabel={Math.round(shape.height).toString()} min="20" max="800" value={shape.height} onChange={(e) => updateCircle(circle.id, { shape: { ...shape, height: Number(e.target.value) } })} />
+                                                 </>
+                                             );
+                                         })()}
+                                         {circle.shape?.kind === 'polygon' && (
+                                             <>
+                                                 <Slider label="Size" rightLabel={Math.round(zoneExtent(circle)).toString()} min="10" max="400" value={zoneExtent(circle)} onChange={(e) => updateCircle(circle.id, resizeZone(circle, Number(e.target.value) - zoneExtent(circle)))} />
+                                                 <div className="text-[10px] text-zinc-500 font-mono">Drag vertices on canvas · double-click an edge to add, a vertex to remove</div>
+                                             </>
+                                         )}
                                          <Slider label="Stroke" rightLabel={circle.lineWidth.toString()} min="1" max="20" value={circle.lineWidth} onChange={(e) => updateCircle(circle.id, { lineWidth: Number(e.target.value) })} />
                                          <ColorPicker label="Color" value={circle.color} onChange={(v) => updateCircle(circle.id, { color: v })} />
                                      </div>
 
+                                     {/* Trigger */}
+                                     <div className="pt-2 border-t border-white/5 space-y-2">
+                                         <div className="flex justify-between mb-1"><span className="text-[10px] text-zinc-500 font-semibold">TRIGGER</span></div>
+                                         <Select value={circle.trigger || 'spin_cw'} onChange={(e) => updateCircle(circle.id, { trigger: e.target.value as TriggerMode })}>
+                                             <option value="spin_cw">Spin Clockwise</option>
+                                             <option value="spin_ccw">Spin Counter-Clockwise</option>
+                                             <option value="dwell">Dwell / Hover</option>
+                                             <option value="push">Push (Depth)</option>
+                                             <option value="swipe">Swipe Through</option>
+                                         </Select>
+                                         {circle.trigger === 'dwell' && (
+                                             <Slider label="Dwell Time" rightLabel={`${resolveZoneTuning(circle, settings).dwellMs}ms`} min="200" max="5000" step="100" value={resolveZoneTuning(circle, settings).dwellMs} onChange={(e) => updateCircle(circle.id, { dwellMs: Number(e.target.value) })} />
+                                         )}
+                                         {circle.trigger === 'push' && (
+                                             <>
+                                                 <Slider label="Push Distance" rightLabel={`${resolveZoneTuning(circle, settings).pushMm}mm`} min="20" max="400" step="10" value={resolveZoneTuning(circle, settings).pushMm} onChange={(e) => updateCircle(circle.id, { pushMm: Number(e.target.value) })} />
+                                                 {settings.cameraType !== 'professional' && (
+                                                     <div className="text-[10px] text-amber-400/70 font-mono">Requires Orbbec Bridge depth</div>
+                                                 )}
+                                             </>
+                                         )}
+                                     </div>
+
+                                     {/* Depth window */}
+                                     {settings.cameraType === 'professional' && (
+                                         <div className="pt-2 border-t border-white/5 space-y-2">
+                                             <Toggle
+                                                 label="Depth Window"
+                                                 checked={!!circle.depthWindow}
+                                                 onChange={(v) => updateCircle(circle.id, { depthWindow: v ? { nearMm: Math.max(0, settings.depthTriggerMm - 300), farMm: settings.depthTriggerMm } : undefined })}
+                                             />
+                                             {circle.depthWindow && (
+                                                 <>
+                                                     <Slider label="Near" rightLabel={`${circle.depthWindow.nearMm}mm`} min="0" max="4000" step="10" value={circle.depthWindow.nearMm} onChange={(e) => updateCircle(circle.id, { depthWindow: { ...circle.depthWindow!, nearMm: Math.min(Number(e.target.value), circle.depthWindow!.farMm - 10) } })} />
+                                                     <Slider label="Far" rightLabel={`${circle.depthWindow.farMm}mm`} min="10" max="4000" step="10" value={circle.depthWindow.farMm} onChange={(e) => updateCircle(circle.id, { depthWindow: { ...circle.depthWindow!, farMm: Math.max(Number(e.target.value), circle.depthWindow!.nearMm + 10) } })} />
+                                                     {!settings.depthMapEnabled && (
+                                                         <div className="text-[10px] text-amber-400/70 font-mono">Fingertip depth only; enable Depth Map to trigger without hands</div>
+                                                     )}
+                                                 </>
+                                             )}
+                                         </div>
+                                     )}
+
+                                     {/* Tuning */}
+                                     <div className="pt-2 border-t border-white/5 space-y-2">
+                                         <button
+                                             onClick={() => setShowTuning(!showTuning)}
+                                             className="w-full flex justify-between text-[10px] text-zinc-500 font-semibold hover:text-zinc-300"
+                                         >
+                                             <span>SENSITIVITY</span>
+                                             <span className={`transform transition-transform ${showTuning ? 'rotate-180' : ''}`}>▼</span>
+                                         </button>
+                                         {showTuning && (
+                                             <>
+                                                 <TuningSliders
+                                                     values={resolveZoneTuning(circle, settings)}
+                                                     overridden={(key) => circle[key] !== undefined}
+                                                     onChange={(key, value) => updateCircle(circle.id, { [key]: value })}
+                                                 />
+                                                 <Button
+                                                     variant="ghost"
+                                                     className="w-full !py-1 text-[10px]"
+                                                     onClick={() => setCircles(prev => prev.map(c => {
+                                                         if (c.id !== circle.id) return c;
+                                                         const next = { ...c };
+                                                         for (const f of TUNING_FIELDS) delete next[f.key];
+                                                         return next;
+                                                     }))}
+                                                 >
+                                                     Use Global Defaults
+                                                 </Button>
+                                             </>
+                                         )}
+                                     </div>
+
+                                     {/* MIDI */}
+                                     <div className="pt-2 border-t border-white/5 space-y-2">
+                                         <Toggle label="MIDI" checked={!!circle.midi} onChange={(v) => updateCircle(circle.id, { midi: v ? { ...DEFAULT_MIDI_MAPPING } : undefined })} />
+                                         {circle.midi && (
+                                             <>
+                                                 <div className="grid grid-cols-2 gap-2">
+                                                     <Select value={circle.midi.mode} onChange={(e) => updateMidi(circle, { mode: e.target.value as ZoneMidiMapping['mode'] })}>
+                                                         <option value="note">Note On/Off</option>
+                                                         <option value="cc">CC On/Off</option>
+                                                     </Select>
+                                                     <Select value={circle.midi.channel} onChange={(e) => updateMidi(circle, { channel: Number(e.target.value) })}>
+                                                         {Array.from({ length: 16 }, (_, i) => (
+                                                             <option key={i} value={i + 1}>Ch {i + 1}</option>
+                                                         ))}
+                                                     </Select>
+                                                 </div>
+                                                 <Slider label={circle.midi.mode === 'note' ? 'Note' : 'CC #'} rightLabel={circle.midi.number.toString()} min="0" max="127" value={circle.midi.number} onChange={(e) => updateMidi(circle, { number: Number(e.target.value) })} />
+                                                 <Slider label={circle.midi.mode === 'note' ? 'Velocity' : 'On Value'} rightLabel={circle.midi.velocity.toString()} min="0" max="127" value={circle.midi.velocity} onChange={(e) => updateMidi(circle, { velocity: Number(e.target.value) })} />
+                                                 <Toggle label="Stream Progress CC" checked={circle.midi.progressCc !== null} onChange={(v) => updateMidi(circle, { progressCc: v ? 1 : null })} />
+                                                 {circle.midi.progressCc !== null && (
+                                                     <Slider label="Progress CC #" rightLabel={circle.midi.progressCc.toString()} min="0" max="127" value={circle.midi.progressCc} onChange={(e) => updateMidi(circle, { progressCc: Number(e.target.value) })} />
+                                                 )}
+                                             </>
+                                         )}
+                                     </div>
+
                                      {/* Media */}
                                      <div className="pt-2 border-t border-white/5 space-y-3">
                                          <div>
@@ -412,6 +870,24 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
                                             </div>
                                          </div>
 
+                                         <div>
+                                            <div className="flex justify-between mb-1"><span className="text-[10px] text-zinc-500 font-semibold">VIDEO</span></div>
+                                            <div className="flex gap-2">
+                                                <TextInput placeholder="MP4 / WebM URL..." value={circle.videoPath || ''} onChange={(e) => updateCircle(circle.id, { videoPath: e.target.value })} />
+                                                <FileButton accept="video/mp4,video/webm" onFileSelect={(f) => updateCircle(circle.id, { videoPath: URL.createObjectURL(f) })} />
+                                            </div>
+                                            {circle.videoPath && (
+                                                <div className="mt-2 space-y-1">
+                                                    <Select value={circle.videoMode || 'loop'} onChange={(e) => updateCircle(circle.id, { videoMode: e.target.value as CircleConfig['videoMode'] })}>
+                                                        <option value="loop">Loop (resume on trigger)</option>
+                                                        <option value="once">One-shot (play to end)</option>
+                                                        <option value="restart">Restart on trigger</option>
+                                                    </Select>
+                                                    <Toggle label="Use Video Sound" checked={!!circle.videoAudio} onChange={(v) => updateCircle(circle.id, { videoAudio: v })} />
+                                                </div>
+                                            )}
+                                         </div>
+
                                          <div>
                                             <div className="flex justify-between mb-1"><span className="text-[10px] text-zinc-500 font-semibold">AUDIO</span></div>
                                             <div className="flex gap-2 mb-2">
@@ -427,6 +903,12 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
                                                     className="flex-1 h-1 bg-zinc-700 rounded-lg appearance-none cursor-pointer"
                                                 />
                                             </div>
+                                            {(circle.audioPath || (circle.videoPath && circle.videoAudio)) && (
+                                                <div className="grid grid-cols-2 gap-2 mt-2">
+                                                    <Slider label="Fade In" rightLabel={`${circle.fadeInMs ?? settings.audioFadeInMs}ms`} min="0" max="5000" step="50" value={circle.fadeInMs ?? settings.audioFadeInMs} onChange={(e) => updateCircle(circle.id, { fadeInMs: Number(e.target.value) })} />
+                                                    <Slider label="Fade Out" rightLabel={`${circle.fadeOutMs ?? settings.audioFadeOutMs}ms`} min="0" max="5000" step="50" value={circle.fadeOutMs ?? settings.audioFadeOutMs} onChange={(e) => updateCircle(circle.id, { fadeOutMs: Number(e.target.value) })} />
+                                                </div>
+                                            )}
                                          </div>
                                      </div>
                                  </div>
@@ -434,6 +916,7 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
                         </div>
                     );
                 })}
+                <div style={{ height: zoneWindow.padBottom }} />
             </div>
         </div>
       </div>
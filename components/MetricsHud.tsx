@@ -0,0 +1,80 @@
+
+import React, { useEffect, useRef, useState } from 'react';
+import { metrics, MetricsRow } from '../utils/metrics';
+import { describeFeedLink, FEED_LINK_COLORS } from '../utils/feedLink';
+import { useFeedLink } from '../hooks/useFeedLink';
+
+const REFRESH_MS = 1000; // Matches the collector's roll-up
+const GRAPH_SECONDS = 60;
+const GRAPH_W = 180;
+const GRAPH_H = 36;
+const EVENT_VISIBLE_MS = 10000;
+
+const SERIES: { key: keyof MetricsRow; color: string }[] = [
+  { key: 'renderFps', color: '#22d3ee' },
+  { key: 'analysisFps', color: '#fbbf24' },
+  { key: 'wsFps', color: '#f472b6' }
+];
+
+const drawGraph = (canvas: HTMLCanvasElement, rows: MetricsRow[]) => {
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return;
+  ctx.clearRect(0, 0, GRAPH_W, GRAPH_H);
+  const max = Math.max(60, ...rows.map(r => r.renderFps));
+  const step = GRAPH_W / (GRAPH_SECONDS - 1);
+  const x0 = GRAPH_W - (rows.length - 1) * step;
+  ctx.lineWidth = 1;
+  for (const { key, color } of SERIES) {
+    if (!rows.some(r => (r[key] as number) > 0)) continue;
+    ctx.strokeStyle = color;
+    ctx.beginPath();
+    rows.forEach((r, i) => {
+      const y = GRAPH_H - 1 - ((r[key] as number) / max) * (GRAPH_H - 2);
+      if (i === 0) ctx.moveTo(x0 + i * step, y);
+      else ctx.lineTo(x0 + i * step, y);
+    });
+    ctx.stroke();
+  }
+};
+
+// Live telemetry in the top-left corner: rates, inference latency and link health
+export const MetricsHud = () => {
+  const [row, setRow] = useState<MetricsRow | null>(null);
+  const graphRef = useRef<HTMLCanvasElement>(null);
+  const link = useFeedLink();
+
+  useEffect(() => {
+    const id = window.setInterval(() => {
+      const history = metrics.history();
+      setRow(metrics.latest());
+      if (graphRef.current) drawGraph(graphRef.current, history.slice(-GRAPH_SECONDS));
+    }, REFRESH_MS);
+    return () => window.clearInterval(id);
+  }, []);
+
+  const events = metrics.events();
+  const lastEvent = events[events.length - 1];
+  const showEvent = lastEvent && Date.now() - lastEvent.time < EVENT_VISIBLE_MS;
+
+  return (
+    <div className="fixed left-4 top-4 z-40 bg-zinc-950/60 backdrop-blur-md text-cyan-400 px-4 py-2 rounded-sm font-tech text-xs border-l-2 border-cyan-500 shadow-lg select-none pointer-events-none space-y-0.5">
+      {link.phase !== 'idle' && (
+        <div className={FEED_LINK_COLORS[link.phase]}>LINK {describeFeedLink(link)}{link.transport && link.phase === 'live' ? ` · ${link.transport === 'binary' ? 'BIN' : 'JSON'}` : ''}</div>
+      )}
+      {row ? (
+        <>
+          <div>FPS {row.renderFps.toFixed(0)} · <span className="text-amber-400">AI {row.analysisFps.toFixed(0)}/s</span></div>
+          <div className="text-zinc-400">INF p50 {row.inferenceP50.toFixed(0)} · p95 {row.inferenceP95.toFixed(0)} · p99 {row.inferenceP99.toFixed(0)} ms</div>
+          {(row.wsFps > 0 || row.reconnects > 0) && (
+            <div className="text-pink-400">WS {row.wsFps.toFixed(0)}/s · DEC {row.wsDecodeMs.toFixed(1)} ms</div>
+          )}
+          <div className={row.droppedFrames > 0 || row.reconnects > 0 ? 'text-amber-400' : 'text-zinc-500'}>DROP {row.droppedFrames} · RECON {row.reconnects}</div>
+        </>
+      ) : (
+        <div>-</div>
+      )}
+      <canvas ref={graphRef} width={GRAPH_W} height={GRAPH_H} className="block mt-1" />
+      {showEvent && <div className="text-zinc-500 text-[10px]">{lastEvent.message}</div>}
+    </div>
+  );
+};
@@ -0,0 +1,202 @@
+
+import React, { useEffect, useRef, useState } from 'react';
+import { AppSettings, TouchPlane, TrackedHand } from '../types';
+import { Button } from './UI';
+import { DEPTH_MAP_MAX_AGE_MS, DepthMap } from '../utils/depthMap';
+import { fitTouchPlane, MIN_PLANE_SAMPLES, samplesFromDepthMap, TouchSample } from '../utils/touchPlane';
+import { canvasToCamera, getCanvasSize } from '../utils';
+
+const CAPTURE_POLL_MS = 30;
+const WALL_CAPTURE_FRAMES = 10; // Depth maps pooled into an empty-wall fit
+const WALL_CAPTURE_TIMEOUT_MS = 3000;
+const POINT_HOLD_MS = 500; // A touch point averages the fingertip over this long
+
+type Method = 'wall' | 'points';
+
+export interface TouchCalibrationPreview {
+  samples: TouchSample[];
+  plane: TouchPlane | null;
+}
+
+interface TouchCalibrationProps {
+  settings: AppSettings;
+  depthMapRef: React.MutableRefObject<DepthMap | null>;
+  handsRef: React.MutableRefObject<TrackedHand[]>;
+  onPreview: (preview: TouchCalibrationPreview | null) => void; // Drawn on the canvas while open
+  onSave: (plane: TouchPlane) => void;
+  onClose: () => void;
+}
+
+// Fits the touch plane, either to an empty-wall depth capture or to fingertip
+// readings taken while touching the wall at several spots
+export const TouchCalibration = ({ settings, depthMapRef, handsRef, onPreview, onSave, onClose }: TouchCalibrationProps) => {
+  const [method, setMethod] = useState<Method>('wall');
+  const [samples, setSamples] = useState<TouchSample[]>([]);
+  const [plane, setPlane] = useState<TouchPlane | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const timerRef = useRef<number | undefined>(undefined);
+
+  const settingsRef = useRef(settings);
+  settingsRef.current = settings;
+
+  useEffect(() => () => window.clearInterval(timerRef.current), []);
+
+  // Individual wall samples would bury the canvas; touch points are worth showing
+  useEffect(() => {
+    onPreview({ samples: method === 'points' ? samples : [], plane });
+  }, [method, samples, plane, onPreview]);
+  useEffect(() => () => onPreview(null), [onPreview]);
+
+  const fit = (next: TouchSample[]) => {
+    const result = fitTouchPlane(next);
+    setPlane(result);
+    if (!result) setError('Could not fit a plane. Spread the samples across the surface.');
+  };
+
+  const switchMethod = (m: Method) => {
+    window.clearInterval(timerRef.current);
+    setBusy(false);
+    setMethod(m);
+    setSamples([]);
+    setPlane(null);
+    setError(null);
+  };
+
+  // Polls the feed until `collect` returns true or the timeout passes
+  const capture = (timeoutMs: number, collect: () => boolean, done: () => void) => {
+    setBusy(true);
+    setError(null);
+    const started = performance.now();
+    window.clearInterval(timerRef.current);
+    timerRef.current = window.setInterval(() => {
+      if (collect() || performance.now() - started > timeoutMs) {
+        window.clearInterval(timerRef.current);
+        setBusy(false);
+        done();
+      }
+    }, CAPTURE_POLL_MS);
+  };
+
+  const captureWall = () => {
+    const collected: TouchSample[] = [];
+    let frames = 0;
+    let lastTime = -1;
+    capture(WALL_CAPTURE_TIMEOUT_MS, () => {
+      const map = depthMapRef.current;
+      if (map && map.time !== lastTime && performance.now() - map.time <= DEPTH_MAP_MAX_AGE_MS) {
+        lastTime = map.time;
+        frames++;
+        collected.push(...samplesFromDepthMap(map));
+      }
+      return frames >= WALL_CAPTURE_FRAMES;
+    }, () => {
+      if (frames === 0) {
+        setError('No depth map from the bridge. Enable Depth Map first.');
+        return;
+      }
+      setSamples(collected);
+      fit(collected);
+    });
+  };
+
+  const capturePoint = () => {
+    const { width, height } = getCanvasSize(settingsRef.current);
+    let n = 0, su = 0, sv = 0, sd = 0;
+    capture(POINT_HOLD_MS, () => {
+      const tip = handsRef.current[0]?.tip;
+      if (tip && tip.depth && tip.depth > 0) {
+        const c = canvasToCamera(tip, settingsRef.current, width, height);
+        n++; su += c.x; sv += c.y; sd += tip.depth;
+      }
+      return false;
+    }, () => {
+      if (n === 0) {
+        setError('No fingertip depth. Touch the wall with one hand in view.');
+        return;
+      }
+      const next = [...samples, { u: su / n, v: sv / n, depthMm: sd / n }];
+      setSamples(next);
+      if (next.length >= MIN_PLANE_SAMPLES) fit(next);
+    });
+  };
+
+  const undoPoint = () => {
+    const next = samples.slice(0, -1);
+    setSamples(next);
+    setError(null);
+    if (next.length >= MIN_PLANE_SAMPLES) fit(next);
+    else setPlane(null);
+  };
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const tag = (e.target as HTMLElement)?.tagName;
+      if (tag === 'INPUT' || tag === 'TEXTAREA' || tag === 'SELECT') return;
+      if (e.key === 'Escape') onClose();
+      else if (e.code === 'Space' && method === 'points' && !busy) {
+        e.preventDefault();
+        capturePoint();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  const tab = (m: Method, label: string) => (
+    <button
+      onClick={() => switchMethod(m)}
+      className={`flex-1 py-1.5 text-[10px] font-medium rounded transition-all ${method === m ? 'bg-emerald-900 text-emerald-100 border border-emerald-700' : 'text-zinc-500 hover:text-zinc-300'}`}
+    >
+      {label}
+    </button>
+  );
+
+  return (
+    <div className="fixed bottom-6 left-1/2 -translate-x-1/2 z-50 w-[380px] p-4 space-y-3 bg-zinc-900/95 border border-emerald-500/30 rounded-lg shadow-2xl backdrop-blur">
+      <div className="flex items-center justify-between">
+        <h3 className="font-tech text-sm text-emerald-400 tracking-wider">TOUCH SURFACE CALIBRATION</h3>
+        <button onClick={onClose} className="text-zinc-500 hover:text-white">✕</button>
+      </div>
+
+      <div className="flex bg-black/40 p-0.5 rounded border border-white/5">
+        {tab('wall', 'Empty Wall')}
+        {tab('points', 'Touch Points')}
+      </div>
+
+      {method === 'wall' ? (
+        <>
+          <p className="text-[11px] text-zinc-400">Clear the surface of people and objects, then capture. Needs Depth Map enabled.</p>
+          <Button variant="primary" className="w-full" disabled={busy} onClick={captureWall}>
+            {busy ? 'Capturing…' : samples.length > 0 ? 'Capture Again' : 'Capture Wall'}
+          </Button>
+        </>
+      ) : (
+        <>
+          <p className="text-[11px] text-zinc-400">Touch the wall with one fingertip and press Capture (or Space). Take {MIN_PLANE_SAMPLES}+ points spread across the surface, ideally near the corners.</p>
+          <div className="flex gap-2">
+            <Button variant="primary" className="flex-1" disabled={busy} onClick={capturePoint}>
+              {busy ? 'Hold still…' : `Capture Point ${samples.length + 1}`}
+            </Button>
+            <Button disabled={busy || samples.length === 0} onClick={undoPoint}>Undo</Button>
+          </div>
+        </>
+      )}
+
+      {error && <div className="text-[11px] text-red-400 font-mono">{error}</div>}
+      {plane && (
+        <div className="text-[11px] font-mono text-emerald-300">
+          Fit ±{plane.rmsMm.toFixed(1)}mm over {plane.samples} samples
+          {plane.samples < samples.length && <span className="text-amber-400"> ({samples.length - plane.samples} outliers dropped)</span>}
+        </div>
+      )}
+
+      <div className="flex gap-2 pt-1 border-t border-white/5">
+        <Button variant="ghost" className="flex-1" onClick={onClose}>Cancel</Button>
+        <Button variant="primary" className="flex-1" disabled={!plane || busy} onClick={() => { if (plane) { onSave(plane); onClose(); } }}>
+          Save Plane
+        </Button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,62 @@
+
+import React, { useEffect, useRef } from 'react';
+
+const MENU_WIDTH = 168;
+const MENU_HEIGHT = 132;
+
+interface ZoneContextMenuProps {
+  clientX: number;
+  clientY: number;
+  zoneName: string;
+  onDuplicate: () => void;
+  onBringToFront: () => void;
+  onDelete: () => void;
+  onClose: () => void;
+}
+
+// Per-zone actions opened by a long press (touch) or right-click on the canvas
+export const ZoneContextMenu = ({ clientX, clientY, zoneName, onDuplicate, onBringToFront, onDelete, onClose }: ZoneContextMenuProps) => {
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const handlePointerDown = (e: PointerEvent) => {
+      if (!menuRef.current?.contains(e.target as Node)) onClose();
+    };
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('pointerdown', handlePointerDown);
+    window.addEventListener('keydown', handleKeyDown);
+    return () => {
+      window.removeEventListener('pointerdown', handlePointerDown);
+      window.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [onClose]);
+
+  const item = (label: string, action: () => void, danger = false) => (
+    <button
+      onClick={() => { action(); onClose(); }}
+      className={`w-full text-left px-3 py-2.5 text-xs font-semibold tracking-wide rounded transition-colors ${danger ? 'text-red-400 hover:bg-red-900/30' : 'text-zinc-300 hover:bg-zinc-700 hover:text-white'}`}
+    >
+      {label}
+    </button>
+  );
+
+  return (
+    <div
+      ref={menuRef}
+      onContextMenu={(e) => e.preventDefault()}
+      className="fixed z-50 p-1 bg-zinc-900/95 border border-white/10 rounded-lg shadow-2xl backdrop-blur"
+      style={{
+        width: MENU_WIDTH,
+        left: Math.max(0, Math.min(clientX, window.innerWidth - MENU_WIDTH)),
+        top: Math.max(0, Math.min(clientY, window.innerHeight - MENU_HEIGHT))
+      }}
+    >
+      <div className="px-3 pt-1 pb-1.5 text-[10px] uppercase tracking-widest text-zinc-500 truncate">{zoneName}</div>
+      {item('Duplicate', onDuplicate)}
+      {item('Bring to Front', onBringToFront)}
+      {item('Delete', onDelete, true)}
+    </div>
+  );
+};
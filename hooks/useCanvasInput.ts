@@ -1,5 +1,24 @@
-import React, { useRef, useState } from 'react';
+
+import React, { useCallback, useEffect, useRef, useState } from 'react';
 import { AppSettings, CircleConfig, Point } from '../types';
+import { generateId } from '../utils';
+import { getWarpMesh, unwarpPoint } from '../utils/meshWarp';
+import { dragZoneHandle, editPolygonVertex, resizeZone, zoneBounds, zoneContains, zoneExtent, zoneHandles } from '../utils/zoneShape';
+import { getZoneIndex } from '../utils/zoneIndex';
+import { EditOverlay, groupBounds, snapMove, SnapGuide } from '../utils/zoneArrange';
+
+const HANDLE_HIT_PX = 12;
+const MAPPING_HIT_PX = 20;
+const TOUCH_HIT_SCALE = 2; // Fingers are far less precise than a cursor
+const LONG_PRESS_MS = 550;
+const LONG_PRESS_SLOP_PX = 10; // Movement (CSS px) that turns a long press into a drag
+const DUPLICATE_OFFSET_PX = 24;
+
+export interface ZoneContextMenu {
+  id: string;
+  clientX: number;
+  clientY: number;
+}
 
 interface UseCanvasInputProps {
   canvasRef: React.RefObject<HTMLCanvasElement>;
@@ -8,84 +27,301 @@ interface UseCanvasInputProps {
   setCircles: React.Dispatch<React.SetStateAction<CircleConfig[]>>;
   editingId: string | null;
   setEditingId: (id: string | null) => void;
+  selectedIds: string[];
+  setSelection: (ids: string[]) => void; // Last id becomes the edited zone
 }
 
+/**
+ * Canvas editing via Pointer Events, so mouse, pen and touch share one path.
+ * Each gesture captures its pointer; a second finger on a selected zone turns
+ * the gesture into a pinch-resize, and a long press (or right-click) opens the
+ * zone's context menu. Shift-click and rubber-band dragging build a
+ * multi-selection that moves as a group, snapping to the grid and other zones.
+ */
 export const useCanvasInput = ({
-  canvasRef, settings, circles, setCircles, editingId, setEditingId
+  canvasRef, settings, circles, setCircles, editingId, setEditingId, selectedIds, setSelection
 }: UseCanvasInputProps) => {
-  const draggingRef = useRef<{active: boolean, offset: Point}>({ active: false, offset: {x:0, y:0} });
+  const pointersRef = useRef<Map<number, Point>>(new Map()); // Active pointers, canvas px
+  // `handle` is set while resizing/reshaping via an editor handle; otherwise the
+  // zones in `origins` move together, relative to where the drag started
+  const draggingRef = useRef<{pointerId: number | null, start: Point, origins: Map<string, Point>, handle: string | null}>({ pointerId: null, start: {x:0, y:0}, origins: new Map(), handle: null });
+  const marqueeRef = useRef<{pointerId: number, base: string[]} | null>(null);
+  const overlayRef = useRef<EditOverlay>({ guides: [], marquee: null, dragging: false });
+  const mappingPointerRef = useRef<number | null>(null);
+  const pinchRef = useRef<{ids: [number, number], startDist: number, base: CircleConfig} | null>(null);
+  const longPressRef = useRef<{pointerId: number, timer: number, clientX: number, clientY: number} | null>(null);
+  const lastPointerTypeRef = useRef('mouse');
+
   const [draggingPointIndex, setDraggingPointIndex] = useState<number | null>(null);
+  const [contextMenu, setContextMenu] = useState<ZoneContextMenu | null>(null);
+
+  const closeContextMenu = useCallback(() => setContextMenu(null), []);
+
+  const cancelLongPress = () => {
+    if (longPressRef.current) window.clearTimeout(longPressRef.current.timer);
+    longPressRef.current = null;
+  };
 
-  const handleMouseDown = (e: React.MouseEvent) => {
-    if(!canvasRef.current) return;
+  useEffect(() => cancelLongPress, []);
+
+  const toCanvas = (e: { clientX: number, clientY: number }): Point | null => {
+    if (!canvasRef.current) return null;
     const rect = canvasRef.current.getBoundingClientRect();
-    const x = (e.clientX - rect.left) * (canvasRef.current.width / rect.width);
-    const y = (e.clientY - rect.top) * (canvasRef.current.height / rect.height);
-    
-    // Mapping Edit Hit
+    return {
+      x: (e.clientX - rect.left) * (canvasRef.current.width / rect.width),
+      y: (e.clientY - rect.top) * (canvasRef.current.height / rect.height)
+    };
+  };
+
+  // Zones live in scene space, i.e. before the projection warp
+  const toScene = (p: Point): Point | null => {
+    if (!canvasRef.current) return null;
+    const mesh = getWarpMesh(settings, canvasRef.current.width, canvasRef.current.height);
+    return mesh ? unwarpPoint(mesh, p) : p;
+  };
+
+  const selection = selectedIds.filter(id => circles.some(c => c.id === id));
+
+  // Topmost (last drawn) zone under a scene point
+  const hitZone = (scene: Point) => getZoneIndex(circles).query(scene).reverse().find(c => zoneContains(c, scene));
+
+  const pointerDistance = (a: number, b: number) => {
+    const pa = pointersRef.current.get(a);
+    const pb = pointersRef.current.get(b);
+    return pa && pb ? Math.hypot(pa.x - pb.x, pa.y - pb.y) : 0;
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (e.pointerType === 'mouse' && e.button !== 0) return; // Right-click goes through onContextMenu
+    const p = toCanvas(e);
+    if (!p || !canvasRef.current) return;
+    lastPointerTypeRef.current = e.pointerType;
+    setContextMenu(null);
+    pointersRef.current.set(e.pointerId, p);
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const hitScale = e.pointerType === 'mouse' ? 1 : TOUCH_HIT_SCALE;
+
+    // Mapping Edit Hit (one mesh point at a time)
     if (settings.isMappingEdit) {
+        if (mappingPointerRef.current !== null) return;
         const w = canvasRef.current.width;
         const h = canvasRef.current.height;
-        const hitIdx = settings.mappingPoints.findIndex(p => {
-             const px = p.x * w;
-             const py = p.y * h;
-             return Math.sqrt((x-px)**2 + (y-py)**2) < 20; 
-        });
+        const hitIdx = settings.mappingPoints.findIndex(mp => Math.hypot(p.x - mp.x * w, p.y - mp.y * h) < MAPPING_HIT_PX * hitScale);
         if (hitIdx !== -1) {
+            mappingPointerRef.current = e.pointerId;
             setDraggingPointIndex(hitIdx);
-            return;
         }
         return;
     }
 
-    // Circle Hit
-    const hitId = circles.slice().reverse().find(c => {
-        const dx = x - c.x;
-        const dy = y - c.y;
-        return Math.sqrt(dx*dx + dy*dy) <= c.radius;
-    })?.id;
-
-    if(hitId) {
-       draggingRef.current = { active: true, offset: {x:0, y:0} };
-       setEditingId(hitId);
-       const c = circles.find(ci => ci.id === hitId)!;
-       draggingRef.current.offset = { x: x - c.x, y: y - c.y };
+    // Second finger: pinch-resize the selected zone
+    if (pointersRef.current.size === 2) {
+        const editing = circles.find(c => c.id === editingId);
+        const ids = Array.from(pointersRef.current.keys()) as [number, number];
+        const startDist = pointerDistance(ids[0], ids[1]);
+        cancelLongPress();
+        draggingRef.current = { pointerId: null, start: {x:0, y:0}, origins: new Map(), handle: null };
+        overlayRef.current = { guides: [], marquee: null, dragging: false };
+        marqueeRef.current = null;
+        if (editing && startDist > 0) pinchRef.current = { ids, startDist, base: editing };
+        return;
+    }
+    if (pointersRef.current.size > 2) return;
+
+    const scene = toScene(p);
+    if (!scene) { setEditingId(null); return; }
+
+    // Handles of the zone being edited take priority over moving it
+    const editing = circles.find(c => c.id === editingId);
+    const handle = editing && zoneHandles(editing).find(h => Math.hypot(scene.x - h.x, scene.y - h.y) <= HANDLE_HIT_PX * hitScale);
+    if (handle) {
+        draggingRef.current = { pointerId: e.pointerId, start: scene, origins: new Map(), handle: handle.id };
+        return;
+    }
+
+    const hit = hitZone(scene);
+    if (hit) {
+       const isSelected = selection.includes(hit.id);
+       if (e.shiftKey && isSelected) {
+           setSelection(selection.filter(id => id !== hit.id));
+           return;
+       }
+       // Shift adds to the selection; pressing a selected zone keeps the group and makes it the edited one
+       const group = e.shiftKey || isSelected ? [...selection.filter(id => id !== hit.id), hit.id] : [hit.id];
+       setSelection(group);
+       const origins = new Map(circles.filter(c => group.includes(c.id)).map(c => [c.id, { x: c.x, y: c.y }] as [string, Point]));
+       draggingRef.current = { pointerId: e.pointerId, start: scene, origins, handle: null };
+       overlayRef.current.dragging = true;
+       if (e.pointerType !== 'mouse') {
+           const { pointerId, clientX, clientY } = e;
+           const timer = window.setTimeout(() => {
+               longPressRef.current = null;
+               draggingRef.current.pointerId = null;
+               overlayRef.current = { guides: [], marquee: null, dragging: false };
+               setContextMenu({ id: hit.id, clientX, clientY });
+           }, LONG_PRESS_MS);
+           longPressRef.current = { pointerId, timer, clientX, clientY };
+       }
     } else {
-        setEditingId(null);
+        // Rubber band from empty space; Shift extends the current selection
+        const base = e.shiftKey ? selection : [];
+        if (!e.shiftKey) setSelection([]);
+        marqueeRef.current = { pointerId: e.pointerId, base };
+        overlayRef.current.marquee = { from: scene, to: scene };
     }
   };
 
-  const handleMouseMove = (e: React.MouseEvent) => {
-    if (!canvasRef.current) return;
-    const rect = canvasRef.current.getBoundingClientRect();
-    const x = (e.clientX - rect.left) * (canvasRef.current.width / rect.width);
-    const y = (e.clientY - rect.top) * (canvasRef.current.height / rect.height);
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!pointersRef.current.has(e.pointerId)) return; // Hover
+    const p = toCanvas(e);
+    if (!p || !canvasRef.current) return;
+    pointersRef.current.set(e.pointerId, p);
 
-    if (settings.isMappingEdit && draggingPointIndex !== null) {
-        const w = canvasRef.current.width;
-        const h = canvasRef.current.height;
-        const nx = Math.max(0, Math.min(1, x / w));
-        const ny = Math.max(0, Math.min(1, y / h));
+    const press = longPressRef.current;
+    if (press && press.pointerId === e.pointerId && Math.hypot(e.clientX - press.clientX, e.clientY - press.clientY) > LONG_PRESS_SLOP_PX) {
+        cancelLongPress();
+    }
+
+    if (settings.isMappingEdit) {
+        if (mappingPointerRef.current !== e.pointerId || draggingPointIndex === null) return;
+        const nx = Math.max(0, Math.min(1, p.x / canvasRef.current.width));
+        const ny = Math.max(0, Math.min(1, p.y / canvasRef.current.height));
 
         const event = new CustomEvent('updateMappingPoint', { detail: { index: draggingPointIndex, point: {x: nx, y: ny} } });
         window.dispatchEvent(event);
         return;
     }
 
-    if (!settings.isMappingEdit && draggingRef.current.active && editingId) {
-        setCircles(prev => prev.map(c => {
-            if (c.id === editingId) {
-                return { ...c, x: x - draggingRef.current.offset.x, y: y - draggingRef.current.offset.y };
-            }
-            return c;
-        }));
+    const pinch = pinchRef.current;
+    if (pinch) {
+        if (!pinch.ids.includes(e.pointerId)) return;
+        const scale = pointerDistance(pinch.ids[0], pinch.ids[1]) / pinch.startDist;
+        const base = pinch.base;
+        setCircles(prev => prev.map(c => c.id === base.id ? { ...c, ...resizeZone(base, zoneExtent(base) * (scale - 1)) } : c));
+        return;
+    }
+
+    const marquee = overlayRef.current.marquee;
+    if (marqueeRef.current?.pointerId === e.pointerId && marquee) {
+        const scene = toScene(p);
+        if (!scene) return;
+        overlayRef.current.marquee = { ...marquee, to: scene };
+        const minX = Math.min(marquee.from.x, scene.x), maxX = Math.max(marquee.from.x, scene.x);
+        const minY = Math.min(marquee.from.y, scene.y), maxY = Math.max(marquee.from.y, scene.y);
+        const base = marqueeRef.current.base;
+        const inside = circles.filter(c => {
+            const b = zoneBounds(c);
+            return !base.includes(c.id) && b.maxX >= minX && b.minX <= maxX && b.maxY >= minY && b.minY <= maxY;
+        });
+        setSelection([...base, ...inside.map(c => c.id)]);
+        return;
     }
+
+    const drag = draggingRef.current;
+    if (drag.pointerId !== e.pointerId) return;
+    const scene = toScene(p);
+    if (!scene) return;
+
+    if (drag.handle) {
+        if (!editingId) return;
+        const handle = drag.handle;
+        setCircles(prev => prev.map(c => c.id === editingId ? { ...c, ...dragZoneHandle(c, handle, scene) } : c));
+        return;
+    }
+
+    // Group move; snapping is held off with Alt
+    const dx = scene.x - drag.start.x;
+    const dy = scene.y - drag.start.y;
+    let snap = { dx: 0, dy: 0, guides: [] as SnapGuide[] };
+    if (!e.altKey && (settings.snapToGrid || settings.snapToZones)) {
+        const moved = circles.filter(c => drag.origins.has(c.id)).map(c => ({ ...c, x: drag.origins.get(c.id)!.x + dx, y: drag.origins.get(c.id)!.y + dy }));
+        if (moved.length > 0) {
+            snap = snapMove(groupBounds(moved), circles.filter(c => !drag.origins.has(c.id)), {
+                gridSize: settings.snapToGrid ? settings.gridSize : null,
+                toZones: settings.snapToZones
+            });
+        }
+    }
+    overlayRef.current.guides = snap.guides;
+    setCircles(prev => prev.map(c => {
+        const o = drag.origins.get(c.id);
+        return o ? { ...c, x: o.x + dx + snap.dx, y: o.y + dy + snap.dy } : c;
+    }));
   };
 
-  const handleMouseUp = () => {
-    draggingRef.current.active = false;
-    setDraggingPointIndex(null);
+  // Also used for pointercancel (e.g. the OS taking over a touch)
+  const handlePointerUp = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    pointersRef.current.delete(e.pointerId);
+    if (longPressRef.current?.pointerId === e.pointerId) cancelLongPress();
+    if (mappingPointerRef.current === e.pointerId) {
+        mappingPointerRef.current = null;
+        setDraggingPointIndex(null);
+    }
+    // Lifting either finger ends the pinch; the other one doesn't resume dragging
+    if (pinchRef.current?.ids.includes(e.pointerId)) pinchRef.current = null;
+    if (marqueeRef.current?.pointerId === e.pointerId) {
+        marqueeRef.current = null;
+        overlayRef.current.marquee = null;
+    }
+    if (draggingRef.current.pointerId === e.pointerId) {
+        draggingRef.current = { pointerId: null, start: {x:0, y:0}, origins: new Map(), handle: null };
+        overlayRef.current.guides = [];
+        overlayRef.current.dragging = false;
+    }
+  };
+
+  // Right-click opens the zone menu; on touch the long-press timer already does
+  const handleContextMenu = (e: React.MouseEvent) => {
+    e.preventDefault();
+    if (settings.isMappingEdit || lastPointerTypeRef.current !== 'mouse') return;
+    const p = toCanvas(e);
+    const scene = p && toScene(p);
+    const hit = scene && hitZone(scene);
+    if (!hit) return;
+    setEditingId(hit.id);
+    setContextMenu({ id: hit.id, clientX: e.clientX, clientY: e.clientY });
+  };
+
+  // Polygon tracing: double-click an edge to add a vertex, a vertex to remove it
+  const handleDoubleClick = (e: React.MouseEvent) => {
+    if (settings.isMappingEdit || !editingId) return;
+    const p = toCanvas(e);
+    const scene = p && toScene(p);
+    if (!scene) return;
+
+    setCircles(prev => prev.map(c => {
+        if (c.id !== editingId) return c;
+        const shape = editPolygonVertex(c, scene, HANDLE_HIT_PX);
+        return shape ? { ...c, shape } : c;
+    }));
   };
 
-  return { handleMouseDown, handleMouseMove, handleMouseUp };
-};
\ No newline at end of file
+  // --- Context menu actions ---
+  const duplicateZone = (id: string) => {
+    const copyId = generateId();
+    setCircles(prev => {
+        const src = prev.find(c => c.id === id);
+        if (!src) return prev;
+        return [...prev, { ...src, id: copyId, name: `${src.name} copy`, x: src.x + DUPLICATE_OFFSET_PX, y: src.y + DUPLICATE_OFFSET_PX }];
+    });
+    setEditingId(copyId);
+  };
+
+  const deleteZone = (id: string) => {
+    setCircles(prev => prev.filter(c => c.id !== id));
+    if (selection.includes(id)) setSelection(selection.filter(sid => sid !== id));
+  };
+
+  // Later zones are drawn (and hit-tested) on top
+  const bringZoneToFront = (id: string) => {
+    setCircles(prev => {
+        const c = prev.find(ci => ci.id === id);
+        return c ? [...prev.filter(ci => ci.id !== id), c] : prev;
+    });
+  };
+
+  return {
+    handlePointerDown, handlePointerMove, handlePointerUp, handleContextMenu, handleDoubleClick, draggingPointIndex, overlayRef,
+    contextMenu, closeContextMenu, duplicateZone, deleteZone, bringZoneToFront
+  };
+};
@@ -0,0 +1,15 @@
+import { useEffect, useState, useSyncExternalStore } from 'react';
+import { feedLink } from '../utils/feedLink';
+
+// Re-renders on every camera bridge link transition, and every second while
+// backing off so the retry countdown keeps moving
+export const useFeedLink = () => {
+  const link = useSyncExternalStore(feedLink.subscribe, feedLink.get);
+  const [, setTick] = useState(0);
+  useEffect(() => {
+    if (link.phase !== 'backoff') return;
+    const id = window.setInterval(() => setTick(t => t + 1), 1000);
+    return () => window.clearInterval(id);
+  }, [link.phase]);
+  return link;
+};
@@ -1,20 +1,28 @@
 
 import React, { useRef, useEffect } from 'react';
-import { AppSettings, Point, RemoteHand } from '../types';
-import { smoothLandmarks, smoothPoint } from '../utils';
+import { AppSettings, Point, RemoteHand, TrackedHand } from '../types';
+import { cameraToCanvas, smoothLandmarks, smoothPoint } from '../utils';
+import { statusBoard } from '../utils/statusBoard';
+import { metrics } from '../utils/metrics';
 
 const SMOOTH_ALPHA = 0.35;
 const INDEX_TIP = 8;
 const HOLD_FRAMES = 0; 
+const MATCH_MAX_DIST = 0.25; // Max normalized tip travel between frames to count as the same hand
+const MODEL_SCRIPT_TIMEOUT_MS = 15000; // Before a missing MediaPipe script counts as an error
+
+interface RawHand {
+    landmarks: Point[]; // Transformed, normalized 0-1
+    tipDepth?: number;
+}
 
 export const useHandTracking = (
-    onStats: (msg: string) => void,
     settings: AppSettings,
     canvasRef: React.RefObject<HTMLCanvasElement>
 ) => {
     const handsRef = useRef<any>(null);
-    const prevLmsRef = useRef<Point[] | null>(null);
-    const prevTipRef = useRef<Point | null>(null);
+    const trackedRef = useRef<TrackedHand[]>([]);
+    const nextHandIdRef = useRef<number>(1);
     const holdLeftRef = useRef<number>(0);
     const lastAnalyzeRef = useRef<number>(0);
     const nextAnalyzeDueRef = useRef<number>(0);
@@ -27,6 +35,13 @@ export const useHandTracking = (
     const settingsRef = useRef(settings);
     useEffect(() => { settingsRef.current = settings; }, [settings]);
 
+    // "Dual Hands" can be toggled after the model is created
+    useEffect(() => {
+        if (handsRef.current) {
+            try { handsRef.current.setOptions({ maxNumHands: settings.maxHands }); } catch(e){}
+        }
+    }, [settings.maxHands]);
+
     /**
      * 由于分析画布 (analysisCanvas) 现在只包含可见区域，
      * MediaPipe 返回的坐标已经对应了视口。
@@ -36,38 +51,53 @@ export const useHandTracking = (
         const canvas = canvasRef.current;
         if (!canvas) return { x: rawX, y: rawY };
 
-        const cw = canvas.width;
-        const ch = canvas.height;
-        const s = settingsRef.current;
-
-        // AI 返回的是 0-1 坐标，相对于送入的“已裁剪图片”
-        let px = rawX * cw;
-        let py = rawY * ch;
-
-        // 1. 处理镜像 (视觉镜像对齐)
-        if (s.mirrorView) {
-            px = cw - px;
-        }
+        // AI 返回的是 0-1 坐标，相对于送入的“已裁剪图片”；镜像与旋转见 cameraToCanvas
+        const p = cameraToCanvas(rawX, rawY, settingsRef.current, canvas.width, canvas.height);
+        return { x: p.x / canvas.width, y: p.y / canvas.height };
+    };
 
-        // 2. 处理旋转 (相对于 Canvas 中心)
-        if (s.rotationDeg !== 0) {
-            const cx = cw / 2;
-            const cy = ch / 2;
-            const rad = s.rotationDeg * (Math.PI / 180);
-            const dx = px - cx;
-            const dy = py - cy;
-            const rx = dx * Math.cos(rad) - dy * Math.sin(rad);
-            const ry = dx * Math.sin(rad) + dy * Math.cos(rad);
-            px = rx + cx;
-            py = ry + cy;
+    /**
+     * 将本帧检测到的手与上一帧的手按指尖距离贪心配对，
+     * 每只手保留独立的平滑状态与稳定 id。
+     */
+    const trackHands = (rawHands: RawHand[]): TrackedHand[] => {
+        const width = canvasRef.current?.width || 800;
+        const height = canvasRef.current?.height || 600;
+        const prev = trackedRef.current;
+
+        const pairs: { ri: number; pi: number; d: number }[] = [];
+        rawHands.forEach((h, ri) => prev.forEach((p, pi) => {
+            const a = h.landmarks[INDEX_TIP], b = p.landmarks[INDEX_TIP];
+            const d = Math.sqrt((a.x - b.x) ** 2 + (a.y - b.y) ** 2);
+            if (d < MATCH_MAX_DIST) pairs.push({ ri, pi, d });
+        }));
+        pairs.sort((a, b) => a.d - b.d);
+
+        const assigned = new Map<number, TrackedHand>();
+        const usedPrev = new Set<number>();
+        for (const { ri, pi } of pairs) {
+            if (assigned.has(ri) || usedPrev.has(pi)) continue;
+            assigned.set(ri, prev[pi]);
+            usedPrev.add(pi);
         }
 
-        return { x: px / cw, y: py / ch };
+        return rawHands.map((h, ri) => {
+            const p = assigned.get(ri) || null;
+            const lms = smoothLandmarks(p ? p.landmarks : null, h.landmarks, SMOOTH_ALPHA);
+            const tipPixel = { x: lms[INDEX_TIP].x * width, y: lms[INDEX_TIP].y * height, depth: h.tipDepth };
+            return {
+                id: p ? p.id : nextHandIdRef.current++,
+                landmarks: lms,
+                tip: smoothPoint(p ? p.tip : null, tipPixel, 0.5)
+            };
+        });
     };
 
     useEffect(() => {
         let isMounted = true;
         let retryInterval: number;
+        const startedAt = performance.now();
+        statusBoard.report('model', { severity: 'info', message: 'Loading hand tracking' });
 
         const attemptInit = () => {
             if (handsRef.current) return;
@@ -88,36 +118,29 @@ export const useHandTracking = (
                     hands.onResults((results: any) => {
                         if (!isMounted) return;
                         isAnalyzingRef.current = false;
+                        statusBoard.report('model', null); // First results mean the model is up
                         
-                        const width = canvasRef.current?.width || 800;
-                        const height = canvasRef.current?.height || 600;
-
                         if (results.multiHandLandmarks && results.multiHandLandmarks.length > 0) {
-                            const rawHand = results.multiHandLandmarks[0];
-                            const transformedLms = rawHand.map((p: any) => transformCoords(p.x, p.y));
-                            
-                            const smoothLms = smoothLandmarks(prevLmsRef.current, transformedLms, SMOOTH_ALPHA);
-                            prevLmsRef.current = smoothLms;
-                            
-                            const tipPixel = { 
-                                x: smoothLms[INDEX_TIP].x * width, 
-                                y: smoothLms[INDEX_TIP].y * height 
-                            };
-                            
-                            prevTipRef.current = smoothPoint(prevTipRef.current, tipPixel, 0.5);
+                            trackedRef.current = trackHands(results.multiHandLandmarks.map((rawHand: any[]) => ({
+                                landmarks: rawHand.map((p: any) => transformCoords(p.x, p.y))
+                            })));
                             holdLeftRef.current = HOLD_FRAMES;
-                        } else if (holdLeftRef.current > 0 && prevTipRef.current) {
+                        } else if (holdLeftRef.current > 0 && trackedRef.current.length > 0) {
                             holdLeftRef.current--;
                         } else {
-                            prevTipRef.current = null;
-                            prevLmsRef.current = null;
+                            trackedRef.current = [];
                         }
 
-                        onStats(`AI_COST:${(performance.now() - lastAnalyzeRef.current).toFixed(0)}ms`);
+                        metrics.inference(performance.now() - lastAnalyzeRef.current);
                     });
                     
                     handsRef.current = hands;
-                } catch (e) { console.error("[MP] Init Error", e); }
+                } catch (e) {
+                    console.error("[MP] Init Error", e);
+                    statusBoard.report('model', { severity: 'error', message: 'Hand tracking unavailable', detail: `Init failed: ${e}` });
+                }
+            } else if (performance.now() - startedAt > MODEL_SCRIPT_TIMEOUT_MS) {
+                statusBoard.report('model', { severity: 'error', message: 'Hand tracking unavailable', detail: 'MediaPipe Hands script not loaded (offline or CDN blocked)' });
             }
         };
 
@@ -131,6 +154,7 @@ export const useHandTracking = (
             isMounted = false;
             clearInterval(retryInterval);
             if (handsRef.current) try { handsRef.current.close(); } catch(e){}
+            statusBoard.report('model', null);
         };
     }, []);
 
@@ -150,17 +174,10 @@ export const useHandTracking = (
 
         // 外部深度相机逻辑
         if (extData && extData.length > 0) {
-            const h = extData[0];
-            const transformedLms = h.landmarks.map(p => transformCoords(p.x, p.y));
-            prevLmsRef.current = smoothLandmarks(prevLmsRef.current, transformedLms, SMOOTH_ALPHA);
-            const width = canvas.width;
-            const height = canvas.height;
-            const tp = { 
-                x: prevLmsRef.current[INDEX_TIP].x * width, 
-                y: prevLmsRef.current[INDEX_TIP].y * height, 
-                depth: h.landmarks[INDEX_TIP].depth_mm 
-            };
-            prevTipRef.current = smoothPoint(prevTipRef.current, tp, 0.5);
+            trackedRef.current = trackHands(extData.slice(0, s.maxHands).map(h => ({
+                landmarks: h.landmarks.map(p => transformCoords(p.x, p.y)),
+                tipDepth: h.landmarks[INDEX_TIP]?.depth_mm
+            })));
             holdLeftRef.current = HOLD_FRAMES;
             return;
         }
@@ -219,9 +236,10 @@ export const useHandTracking = (
                 await handsRef.current.send({ image: anaCv }); 
             } catch(e) { 
                 isAnalyzingRef.current = false; 
+                statusBoard.report('model', { severity: 'error', message: 'Hand tracking failed', detail: String(e) });
             }
         }
     };
 
-    return { analyzeFrame, landmarksRef: prevLmsRef, tipRef: prevTipRef };
+    return { analyzeFrame, handsRef: trackedRef };
 };
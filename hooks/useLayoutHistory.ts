@@ -0,0 +1,142 @@
+
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { AppSettings, CircleConfig } from '../types';
+
+const MAX_HISTORY = 100;
+const KEY_REPEAT_COALESCE_MS = 300; // Held keys (e.g. Shift+]) fold into one step
+const NON_TEXT_INPUTS = ['range', 'checkbox', 'color', 'file'];
+
+// The parts of the state the editor can change by hand
+interface LayoutSnapshot {
+  circles: CircleConfig[];
+  mappingEnabled: boolean;
+  mappingPoints: AppSettings['mappingPoints'];
+}
+
+interface UseLayoutHistoryProps {
+  circles: CircleConfig[];
+  setCircles: React.Dispatch<React.SetStateAction<CircleConfig[]>>;
+  settings: AppSettings;
+  setSettings: React.Dispatch<React.SetStateAction<AppSettings>>;
+}
+
+/**
+ * Undo/redo for zones and mesh geometry. Rather than wrapping every setter,
+ * it watches the state and records the previous snapshot whenever it changes.
+ * Everything that happens during one pointer press (a drag, a slider) becomes
+ * a single step, as do rapid repeats from a held key.
+ */
+export const useLayoutHistory = ({ circles, setCircles, settings, setSettings }: UseLayoutHistoryProps) => {
+  const undoRef = useRef<LayoutSnapshot[]>([]);
+  const redoRef = useRef<LayoutSnapshot[]>([]);
+  const [counts, setCounts] = useState({ undo: 0, redo: 0 });
+
+  const current: LayoutSnapshot = { circles, mappingEnabled: settings.mappingEnabled, mappingPoints: settings.mappingPoints };
+  const baselineRef = useRef<LayoutSnapshot>(current);
+  const restoringRef = useRef(false); // Next change comes from undo/redo itself
+  const resetPendingRef = useRef(false); // Next change starts a fresh history
+
+  // Pointer presses delimit coalesced steps; a multi-touch gesture counts as one press
+  const pointerRef = useRef({ down: false, press: 0 });
+  const lastStepRef = useRef({ press: -1, pointer: false, time: 0 });
+
+  useEffect(() => {
+    const active = new Set<number>();
+    const down = (e: PointerEvent) => {
+      if (active.size === 0) pointerRef.current = { down: true, press: pointerRef.current.press + 1 };
+      active.add(e.pointerId);
+    };
+    const up = (e: PointerEvent) => {
+      active.delete(e.pointerId);
+      if (active.size === 0) pointerRef.current.down = false;
+    };
+    window.addEventListener('pointerdown', down, true);
+    window.addEventListener('pointerup', up, true);
+    window.addEventListener('pointercancel', up, true);
+    return () => {
+      window.removeEventListener('pointerdown', down, true);
+      window.removeEventListener('pointerup', up, true);
+      window.removeEventListener('pointercancel', up, true);
+    };
+  }, []);
+
+  const syncCounts = () => setCounts({ undo: undoRef.current.length, redo: redoRef.current.length });
+
+  useEffect(() => {
+    const prev = baselineRef.current;
+    if (prev.circles === circles && prev.mappingEnabled === settings.mappingEnabled && prev.mappingPoints === settings.mappingPoints) return;
+    baselineRef.current = current;
+
+    if (restoringRef.current) {
+      restoringRef.current = false;
+      return;
+    }
+    if (resetPendingRef.current) {
+      resetPendingRef.current = false;
+      undoRef.current = [];
+      redoRef.current = [];
+      syncCounts();
+      return;
+    }
+
+    const now = performance.now();
+    const pointer = pointerRef.current;
+    const last = lastStepRef.current;
+    const coalesce = pointer.down
+      ? last.pointer && last.press === pointer.press
+      : !last.pointer && now - last.time < KEY_REPEAT_COALESCE_MS;
+    lastStepRef.current = { press: pointer.press, pointer: pointer.down, time: now };
+    if (coalesce) return;
+
+    undoRef.current = [...undoRef.current.slice(-(MAX_HISTORY - 1)), prev];
+    redoRef.current = [];
+    syncCounts();
+  }, [circles, settings.mappingEnabled, settings.mappingPoints]);
+
+  const restore = (snap: LayoutSnapshot) => {
+    restoringRef.current = true;
+    lastStepRef.current = { press: -1, pointer: false, time: 0 }; // Never merge into a restored state
+    setCircles(snap.circles);
+    setSettings(s => ({ ...s, mappingEnabled: snap.mappingEnabled, mappingPoints: snap.mappingPoints }));
+  };
+
+  const undo = useCallback(() => {
+    const snap = undoRef.current.pop();
+    if (!snap) return;
+    redoRef.current.push(baselineRef.current);
+    restore(snap);
+    syncCounts();
+  }, []);
+
+  const redo = useCallback(() => {
+    const snap = redoRef.current.pop();
+    if (!snap) return;
+    undoRef.current.push(baselineRef.current);
+    restore(snap);
+    syncCounts();
+  }, []);
+
+  // Loading a layout or switching scenes begins a new history
+  const reset = useCallback(() => { resetPendingRef.current = true; }, []);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+      // Text fields keep their native undo
+      const target = e.target as HTMLInputElement;
+      if (target.tagName === 'TEXTAREA' || (target.tagName === 'INPUT' && !NON_TEXT_INPUTS.includes(target.type))) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        redo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo]);
+
+  return { undo, redo, reset, undoCount: counts.undo, redoCount: counts.redo };
+};
@@ -0,0 +1,72 @@
+
+import { useEffect, useRef } from 'react';
+import { CircleConfig, ZoneMidiMapping } from '../types';
+import { ZoneEventBus } from '../utils/zoneEvents';
+import { getMidiAccess, midiOffMessage, midiOnMessage, midiProgressMessage } from '../utils/midi';
+
+interface UseMidiOutputProps {
+  bus: ZoneEventBus;
+  outputId: string;
+  circles: CircleConfig[];
+}
+
+/**
+ * Sends each zone's MIDI mapping on fill/release and optionally streams
+ * its gesture progress as a CC.
+ */
+export const useMidiOutput = ({ bus, outputId, circles }: UseMidiOutputProps) => {
+  const circlesRef = useRef(circles);
+  useEffect(() => { circlesRef.current = circles; }, [circles]);
+
+  useEffect(() => {
+    if (!outputId) return;
+
+    let output: MIDIOutput | null = null;
+    let disposed = false;
+    // Zones with a note/CC currently "on", with the mapping it was sent with, so
+    // editing the zone while it sounds can't leave the note hanging
+    const sounding = new Map<string, ZoneMidiMapping>();
+
+    getMidiAccess().then(access => {
+      if (disposed || !access) return;
+      output = access.outputs.get(outputId) || null;
+      if (!output) console.warn(`[MIDI] Output ${outputId} not found`);
+    });
+
+    const send = (data: number[]) => {
+      try { output?.send(data); } catch (e) { console.warn("[MIDI] Send failed", e); }
+    };
+
+    const unsubscribe = bus.subscribe((e) => {
+      if (e.type === 'zone_released') {
+        const midi = sounding.get(e.circleId);
+        if (midi) send(midiOffMessage(midi));
+        sounding.delete(e.circleId);
+        return;
+      }
+
+      const c = circlesRef.current.find(ci => ci.id === e.circleId);
+      if (!c?.midi || !output) return;
+
+      if (e.type === 'zone_filled') {
+        const previous = sounding.get(c.id);
+        if (previous) send(midiOffMessage(previous));
+        send(midiOnMessage(c.midi));
+        sounding.set(c.id, c.midi);
+        const p = midiProgressMessage(c.midi, 1);
+        if (p) send(p);
+      } else if (e.type === 'zone_progress') {
+        const p = midiProgressMessage(c.midi, e.progress);
+        if (p) send(p);
+      }
+    });
+
+    return () => {
+      disposed = true;
+      unsubscribe();
+      // Don't leave notes hanging when the device changes or the app unmounts
+      for (const midi of sounding.values()) send(midiOffMessage(midi));
+      sounding.clear();
+    };
+  }, [bus, outputId]);
+};
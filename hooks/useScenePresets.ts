@@ -0,0 +1,102 @@
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { AppSettings, CircleConfig } from '../types';
+import { createLayoutBundle } from '../utils/layoutBundle';
+import { deleteScene as removeScene, getScene, listScenes, putScene } from '../utils/sceneStore';
+
+interface UseScenePresetsProps {
+  circles: CircleConfig[];
+  settings: AppSettings;
+  backgroundImage: HTMLImageElement | null;
+  applyLayout: (json: unknown) => string[] | null; // Returns validation errors
+}
+
+/**
+ * Named scenes stored in IndexedDB. Switching applies the stored bundle in
+ * place (no reload). Alt+1..9 picks a scene by position, Alt+PageUp/PageDown
+ * steps through them.
+ */
+export const useScenePresets = ({ circles, settings, backgroundImage, applyLayout }: UseScenePresetsProps) => {
+  const [scenes, setScenes] = useState<string[]>([]);
+  const [activeScene, setActiveScene] = useState<string | null>(null);
+
+  // Shortcuts and remote commands fire outside React's render cycle
+  const latestRef = useRef({ circles, settings, backgroundImage, applyLayout, scenes, activeScene });
+  latestRef.current = { circles, settings, backgroundImage, applyLayout, scenes, activeScene };
+
+  const refresh = useCallback(() => {
+    listScenes().then(setScenes).catch(e => console.error("[Scenes] Could not read scene library", e));
+  }, []);
+
+  useEffect(refresh, [refresh]);
+
+  const saveScene = useCallback(async (name: string) => {
+    const { circles, settings, backgroundImage } = latestRef.current;
+    const bundle = await createLayoutBundle(circles, settings, backgroundImage);
+    await putScene({ name, savedAt: Date.now(), layout: bundle.data });
+    setActiveScene(name);
+    refresh();
+    return bundle.failed; // Media kept as links because it couldn't be fetched
+  }, [refresh]);
+
+  // Resolves false if the scene is missing or fails validation
+  const switchScene = useCallback(async (name: string) => {
+    try {
+      const record = await getScene(name);
+      if (!record) {
+        console.warn(`[Scenes] No scene named "${name}"`);
+        return false;
+      }
+      const errors = latestRef.current.applyLayout(record.layout);
+      if (errors) {
+        console.error(`[Scenes] Scene "${name}" is invalid:\n${errors.join('\n')}`);
+        return false;
+      }
+      setActiveScene(name);
+      return true;
+    } catch (e) {
+      console.error(`[Scenes] Could not load "${name}"`, e);
+      return false;
+    }
+  }, []);
+
+  // Resolves false if storage refused the delete
+  const deleteScene = useCallback(async (name: string) => {
+    try {
+      await removeScene(name);
+    } catch (e) {
+      console.error(`[Scenes] Could not delete "${name}"`, e);
+      return false;
+    }
+    if (latestRef.current.activeScene === name) setActiveScene(null);
+    refresh();
+    return true;
+  }, [refresh]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!e.altKey || e.ctrlKey || e.metaKey) return;
+      if (['INPUT', 'TEXTAREA', 'SELECT'].includes((e.target as HTMLElement).tagName)) return;
+      const { scenes, activeScene } = latestRef.current;
+      if (scenes.length === 0) return;
+
+      let target: string | undefined;
+      if (/^Digit[1-9]$/.test(e.code)) {
+        target = scenes[Number(e.code.slice(5)) - 1];
+      } else if (e.key === 'PageDown' || e.key === 'PageUp') {
+        const current = activeScene ? scenes.indexOf(activeScene) : -1;
+        const step = e.key === 'PageDown' ? 1 : -1;
+        target = current === -1
+          ? scenes[step > 0 ? 0 : scenes.length - 1]
+          : scenes[(current + step + scenes.length) % scenes.length];
+      }
+      if (!target) return;
+      e.preventDefault();
+      switchScene(target);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [switchScene]);
+
+  return { scenes, activeScene, saveScene, switchScene, deleteScene };
+};
@@ -0,0 +1,59 @@
+
+import React, { useLayoutEffect, useState } from 'react';
+
+interface UseVirtualListProps {
+  scrollRef: React.RefObject<HTMLElement>; // Scrolling ancestor
+  listRef: React.RefObject<HTMLElement>; // The list itself (anywhere inside the scroller)
+  count: number;
+  rowStride: number; // Collapsed row height + gap
+  expandedIndex: number; // Row rendered open, or -1
+  expandedExtra: number; // Extra px the open row takes over a collapsed one
+  overscan?: number;
+}
+
+/**
+ * Windowing for a list of fixed-height rows where at most one row is expanded.
+ * Returns the slice to render and the spacer heights around it.
+ */
+export const useVirtualList = ({
+  scrollRef, listRef, count, rowStride, expandedIndex, expandedExtra, overscan = 4
+}: UseVirtualListProps) => {
+  const [view, setView] = useState({ top: 0, height: 800 }); // Visible span, in list coordinates
+
+  const measure = () => {
+    const scroller = scrollRef.current, list = listRef.current;
+    if (!scroller || !list) return;
+    const top = scroller.getBoundingClientRect().top - list.getBoundingClientRect().top;
+    const height = scroller.clientHeight;
+    setView(prev => (prev.top === top && prev.height === height ? prev : { top, height }));
+  };
+
+  // Content above the list (other panel sections) can move it without a scroll
+  useLayoutEffect(measure);
+
+  useLayoutEffect(() => {
+    const scroller = scrollRef.current;
+    if (!scroller) return;
+    scroller.addEventListener('scroll', measure, { passive: true });
+    window.addEventListener('resize', measure);
+    return () => {
+      scroller.removeEventListener('scroll', measure);
+      window.removeEventListener('resize', measure);
+    };
+  }, [scrollRef, listRef]);
+
+  const extra = expandedIndex >= 0 ? expandedExtra : 0;
+  const offsetOf = (i: number) => i * rowStride + (expandedIndex >= 0 && i > expandedIndex ? extra : 0);
+  const indexAt = (y: number) =>
+    Math.floor((expandedIndex >= 0 && y >= offsetOf(expandedIndex + 1) ? y - extra : y) / rowStride);
+
+  const start = Math.max(0, Math.min(count, indexAt(view.top) - overscan));
+  const end = Math.max(start, Math.min(count, indexAt(view.top + view.height) + overscan + 1));
+
+  return {
+    start,
+    end,
+    padTop: offsetOf(start),
+    padBottom: Math.max(0, offsetOf(count) - offsetOf(end))
+  };
+};
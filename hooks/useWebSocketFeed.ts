@@ -1,16 +1,88 @@
 
 import { useEffect, useRef, useState } from 'react';
 import { RemoteHand } from '../types';
+import { statusBoard } from '../utils/statusBoard';
+import { metrics } from '../utils/metrics';
+import { backoffDelay, feedLink, FeedLinkState } from '../utils/feedLink';
+import { BridgePayload, decodeBridgeFrame } from '../utils/bridgeProtocol';
+import { DepthMap } from '../utils/depthMap';
+
+const STALE_AFTER_MS = 2500;
+const STALE_RECONNECT_MS = 8000; // A stale stream this silent gets a fresh connection
+const DEPTH_MAP_WIDTH = 160; // Requested depth-map resolution; the bridge keeps the camera's aspect
+
+// Mirrors the link on the status board; the backoff countdown lives in the HUD
+const reportLink = (s: FeedLinkState) => {
+  switch (s.phase) {
+    case 'idle':
+    case 'live':
+      return statusBoard.report('bridge', null);
+    case 'connecting':
+      return statusBoard.report('bridge', s.attempt === 0
+        ? { severity: 'info', message: 'Connecting to camera bridge', detail: s.url }
+        : { severity: 'warning', message: 'Reconnecting to camera bridge', detail: `${s.url} · attempt ${s.attempt + 1}` });
+    case 'stale':
+      return statusBoard.report('bridge', { severity: 'warning', message: 'Camera stream frozen', detail: s.url });
+    case 'backoff':
+      return statusBoard.report('bridge', { severity: 'warning', message: 'Camera bridge lost, reconnecting', detail: `${s.lastError} · attempt ${s.attempt}` });
+    case 'failed':
+      return statusBoard.report('bridge', { severity: 'error', message: 'Camera bridge unreachable', detail: `${s.lastError} · fix the URL and retry from the panel` });
+  }
+};
+
+const setLinkState = (patch: Partial<FeedLinkState>) => {
+  feedLink.update(patch);
+  reportLink(feedLink.get());
+};
+
+// Map UI mode to Python Backend `vision_source`
+const getVisionSource = (mode: string) => {
+    if (mode === 'depth') return 'depth_vis';
+    return 'color';
+};
+
+// Asks for binary frames; bridges that don't know `transport` ignore it and keep sending JSON.
+// The depth map is binary-only and comes as extra 'depthmap' frames alongside the image.
+const configCommand = (targetIp: string | undefined, streamMode: string, depthMap: boolean) => JSON.stringify({
+    command: 'set_config',
+    config: {
+        target_ip: targetIp || null,
+        vision_source: getVisionSource(streamMode),
+        transport: 'binary',
+        binary_payloads: ['jpeg', 'png', 'depth16', 'depthmap'],
+        depth_map: depthMap ? { width: DEPTH_MAP_WIDTH } : null
+    }
+});
+
+const DEPTH_PREVIEW_MAX_MM = 4000; // Depth frames are shown near = bright, fading to black here
+
+// Renders a raw depth buffer into the feed canvas as greyscale; 0 (no reading) stays black
+const drawDepth16 = (ctx: CanvasRenderingContext2D, { width, height, depth }: Omit<DepthMap, 'time'>) => {
+  const img = ctx.createImageData(width, height);
+  const px = img.data;
+  for (let i = 0; i < depth.length; i++) {
+    const d = depth[i];
+    const v = d === 0 ? 0 : Math.max(0, 255 - Math.round(d / DEPTH_PREVIEW_MAX_MM * 255));
+    const o = i * 4;
+    px[o] = px[o + 1] = px[o + 2] = v;
+    px[o + 3] = 255;
+  }
+  ctx.putImageData(img, 0, 0);
+};
+
+// A frame waiting to be drawn: base64 JPEG from a JSON bridge, or a binary image
+type FeedImage = { kind: 'base64'; data: string } | Exclude<BridgePayload, { kind: 'depthmap' }>;
 
 interface UseWebSocketFeedProps {
   url: string;
   isActive: boolean;
-  onStats: (msg: string) => void;
   targetIp?: string;
   streamMode?: 'color' | 'depth'; 
+  depthMap?: boolean; // Request a downsampled depth map for zone depth windows
+  onSceneCommand?: (name: string) => void; // Bridge asked for a scene: { type: 'load_scene', name }
 }
 
-export const useWebSocketFeed = ({ url, isActive, onStats, targetIp, streamMode = 'color' }: UseWebSocketFeedProps) => {
+export const useWebSocketFeed = ({ url, isActive, targetIp, streamMode = 'color', depthMap = false, onSceneCommand }: UseWebSocketFeedProps) => {
   // Use a persistent canvas that doesn't get recreated
   const canvasRef = useRef<HTMLCanvasElement | null>(null);
   if (!canvasRef.current) {
@@ -21,32 +93,24 @@ export const useWebSocketFeed = ({ url, isActive, onStats, targetIp, streamMode
   
   const depthRef = useRef<number>(0);
   const handsRef = useRef<RemoteHand[] | null>(null);
+  const depthMapRef = useRef<DepthMap | null>(null); // Latest downsampled 'depthmap' frame, while requested
   const wsRef = useRef<WebSocket | null>(null);
   const [isConnected, setIsConnected] = useState(false);
   const lastFrameTimeRef = useRef<number>(0);
   
-  // Watchdog ref to track if we are receiving data
-  const [retryKey, setRetryKey] = useState(0);
-
-  // Map UI mode to Python Backend `vision_source`
-  const getVisionSource = (mode: string) => {
-      if (mode === 'depth') return 'depth_vis';
-      return 'color';
-  };
+  const onSceneCommandRef = useRef(onSceneCommand);
+  onSceneCommandRef.current = onSceneCommand;
+  const depthMapEnabledRef = useRef(depthMap);
+  depthMapEnabledRef.current = depthMap;
+  if (!depthMap) depthMapRef.current = null;
 
   // Separate effect to handle live config updates without reconnecting
   useEffect(() => {
     if (wsRef.current && wsRef.current.readyState === WebSocket.OPEN) {
         console.log("[WS] Sending config update...", { streamMode });
-        wsRef.current.send(JSON.stringify({
-            command: 'set_config',
-            config: { 
-                target_ip: targetIp || null,
-                vision_source: getVisionSource(streamMode)
-            }
-        }));
+        wsRef.current.send(configCommand(targetIp, streamMode, depthMap));
     }
-  }, [targetIp, streamMode, isConnected]); 
+  }, [targetIp, streamMode, depthMap, isConnected]); 
 
   useEffect(() => {
     if (!isActive) {
@@ -55,6 +119,8 @@ export const useWebSocketFeed = ({ url, isActive, onStats, targetIp, streamMode
         wsRef.current = null;
         setIsConnected(false);
       }
+      feedLink.setRetryHandler(null);
+      setLinkState({ phase: 'idle', retryAt: null });
       return;
     }
 
@@ -62,37 +128,125 @@ export const useWebSocketFeed = ({ url, isActive, onStats, targetIp, streamMode
     if (normalizedUrl.startsWith('https://')) normalizedUrl = normalizedUrl.replace('https://', 'wss://');
     else if (normalizedUrl.startsWith('http://')) normalizedUrl = normalizedUrl.replace('http://', 'ws://');
 
-    const ws = new WebSocket(normalizedUrl);
-    wsRef.current = ws;
-
-    ws.onopen = () => {
-      setIsConnected(true);
-      onStats("WS_LINK_ESTABLISHED");
-      console.log("[WS] Connected. Initializing...");
-      
-      ws.send(JSON.stringify({
-         command: 'set_config',
-         config: { 
-             target_ip: targetIp || null,
-             vision_source: getVisionSource(streamMode)
-         }
-      }));
-      
+    let disposed = false;
+    let ws: WebSocket | null = null;
+    let retryTimer: number | undefined;
+    let attempt = 0; // Consecutive failures since the link was last live
+
+    // Only the newest frame is decoded; one arriving mid-decode waits, replacing any older waiting frame
+    let decoding = false;
+    let queued: FeedImage | null = null;
+
+    // Any traffic from the bridge proves the stream is moving again
+    const markAlive = () => {
       lastFrameTimeRef.current = performance.now();
+      if (feedLink.get().phase === 'stale') setLinkState({ phase: 'live' });
     };
 
-    ws.onclose = () => {
-      setIsConnected(false);
-      onStats("WS_LINK_CLOSED");
+    // Sizes the feed canvas to the frame and returns its context, or null once torn down
+    const feedContext = (width: number, height: number) => {
+      const cv = canvasRef.current;
+      if (!cv || disposed) return null;
+      if (cv.width !== width || cv.height !== height) {
+        cv.width = width;
+        cv.height = height;
+      }
+      return cv.getContext('2d', { alpha: false });
+    };
+
+    const frameDrawn = (started: number) => {
+      metrics.feedFrame(performance.now() - started);
+      markAlive();
+    };
+
+    const decodeFrame = (frame: FeedImage) => {
+      decoding = true;
+      const started = performance.now();
+
+      if (frame.kind === 'base64') {
+        const img = new Image();
+        img.onload = () => {
+          try {
+            const ctx = feedContext(img.width, img.height);
+            if (ctx) {
+              ctx.drawImage(img, 0, 0);
+              frameDrawn(started);
+            }
+          } finally {
+            nextFrame();
+          }
+        };
+        img.onerror = nextFrame;
+        img.src = "data:image/jpeg;base64," + frame.data;
+      } else if (frame.kind === 'depth16') {
+        try {
+          const ctx = feedContext(frame.width, frame.height);
+          if (ctx) {
+            drawDepth16(ctx, frame);
+            frameDrawn(started);
+          }
+        } finally {
+          nextFrame();
+        }
+      } else {
+        createImageBitmap(new Blob([frame.bytes], { type: `image/${frame.kind}` }))
+          .then(bitmap => {
+            const ctx = feedContext(bitmap.width, bitmap.height);
+            if (ctx) {
+              ctx.drawImage(bitmap, 0, 0);
+              frameDrawn(started);
+            }
+            bitmap.close();
+          })
+          .catch(() => { /* corrupt frame; the next one replaces it */ })
+          .finally(nextFrame);
+      }
+    };
+
+    const nextFrame = () => {
+      decoding = false;
+      if (queued === null || disposed) return;
+      const frame = queued;
+      queued = null;
+      decodeFrame(frame);
+    };
+
+    const enqueueFrame = (frame: FeedImage) => {
+      if (!decoding) decodeFrame(frame);
+      else {
+        if (queued !== null) metrics.feedDropped();
+        queued = frame;
+      }
     };
 
-    ws.onerror = () => {
-      onStats("WS_LINK_ERROR");
+    const handleBinary = (buf: ArrayBuffer) => {
+      const frame = decodeBridgeFrame(buf);
+      if (!frame) return;
+      if (feedLink.get().transport !== 'binary') setLinkState({ transport: 'binary' });
+      if (frame.centerDepthMm !== null) depthRef.current = frame.centerDepthMm;
+      handsRef.current = frame.hands;
+      const payload = frame.payload;
+      // Full-resolution depth16 frames are only a preview; zones use the downsampled map
+      if (payload && payload.kind === 'depthmap' && depthMapEnabledRef.current) {
+        depthMapRef.current = { width: payload.width, height: payload.height, depth: payload.depth, time: performance.now() };
+      }
+      if (payload && payload.kind !== 'depthmap') enqueueFrame(payload);
+      else markAlive();
     };
 
-    ws.onmessage = (event) => {
+    const handleMessage = (event: MessageEvent) => {
+      if (event.data instanceof ArrayBuffer) {
+        handleBinary(event.data);
+        return;
+      }
       try {
         const data = JSON.parse(event.data);
+
+        // 0. Remote control
+        if (data.type === 'load_scene' && typeof data.name === 'string') {
+          onSceneCommandRef.current?.(data.name);
+          return;
+        }
         
         // 1. Center Depth
         if (data.center_depth_mm !== undefined) {
@@ -111,25 +265,11 @@ export const useWebSocketFeed = ({ url, isActive, onStats, targetIp, streamMode
 
         // 3. Image Data
         if (data.image) {
-          const img = new Image();
-          img.onload = () => {
-            const cv = canvasRef.current;
-            if (cv) {
-                if (cv.width !== img.width || cv.height !== img.height) {
-                  cv.width = img.width;
-                  cv.height = img.height;
-                }
-                const ctx = cv.getContext('2d', { alpha: false });
-                if (ctx) {
-                  ctx.drawImage(img, 0, 0);
-                  lastFrameTimeRef.current = performance.now();
-                }
-            }
-          };
-          img.src = "data:image/jpeg;base64," + data.image;
+          if (feedLink.get().transport !== 'json') setLinkState({ transport: 'json' });
+          enqueueFrame({ kind: 'base64', data: data.image });
         } else if (data.type === 'gesture') {
            // Keep alive if only data is sent
-           lastFrameTimeRef.current = performance.now();
+           markAlive();
         }
 
       } catch (e) {
@@ -137,29 +277,107 @@ export const useWebSocketFeed = ({ url, isActive, onStats, targetIp, streamMode
       }
     };
 
+    // Drops the socket without triggering its close handler
+    const closeSocket = () => {
+      if (!ws) return;
+      ws.onopen = ws.onclose = ws.onerror = ws.onmessage = null;
+      if (ws.readyState === WebSocket.OPEN || ws.readyState === WebSocket.CONNECTING) ws.close();
+      ws = null;
+      wsRef.current = null;
+      setIsConnected(false);
+    };
+
+    const scheduleRetry = (error: string) => {
+      attempt++;
+      const delay = backoffDelay(attempt);
+      setLinkState({ phase: 'backoff', attempt, retryAt: Date.now() + delay, lastError: error });
+      retryTimer = window.setTimeout(connect, delay);
+    };
+
+    const connect = () => {
+      window.clearTimeout(retryTimer);
+      if (disposed) return;
+      if (attempt > 0) metrics.reconnect('bridge'); // A retry after a failure, not a pause, URL change or manual retry
+      setLinkState({ phase: 'connecting', url: normalizedUrl, attempt, retryAt: null, transport: null });
+
+      let socket: WebSocket;
+      try {
+        socket = new WebSocket(normalizedUrl);
+      } catch (e) {
+        setLinkState({ phase: 'failed', lastError: `Invalid URL: ${normalizedUrl}` });
+        return;
+      }
+      socket.binaryType = 'arraybuffer';
+      ws = socket;
+      wsRef.current = socket;
+      queued = null;
+      decoding = false;
+      let opened = false;
+
+      socket.onopen = () => {
+        opened = true;
+        attempt = 0;
+        lastFrameTimeRef.current = performance.now();
+        setLinkState({ phase: 'live', attempt: 0 });
+        setIsConnected(true);
+        metrics.event("WS_LINK_ESTABLISHED");
+        console.log("[WS] Connected. Initializing...");
+        
+        socket.send(configCommand(targetIp, streamMode, depthMap));
+      };
+
+      socket.onerror = () => metrics.event("WS_LINK_ERROR");
+
+      socket.onclose = (e) => {
+        metrics.event("WS_LINK_CLOSED");
+        closeSocket();
+        scheduleRetry(opened ? `Connection closed (code ${e.code})` : `Unreachable (code ${e.code})`);
+      };
+
+      socket.onmessage = handleMessage;
+    };
+
+    // Watchdog: a connected but silent stream goes stale, then gets reconnected
     const wdInterval = window.setInterval(() => {
-        if (ws.readyState === WebSocket.OPEN) {
-            const timeSinceLastFrame = performance.now() - lastFrameTimeRef.current;
-            if (timeSinceLastFrame > 2500) {
-                console.warn("[WS Watchdog] Stream frozen (>2.5s). Reconnecting...");
-                onStats("WS_FROZEN_RETRYING...");
-                ws.close(); 
-                setRetryKey(k => k + 1);
-            }
+        const phase = feedLink.get().phase;
+        if (!ws || ws.readyState !== WebSocket.OPEN || (phase !== 'live' && phase !== 'stale')) return;
+        const silentMs = performance.now() - lastFrameTimeRef.current;
+        if (silentMs > STALE_RECONNECT_MS) {
+            console.warn(`[WS Watchdog] Stream frozen (${(silentMs / 1000).toFixed(1)}s). Reconnecting...`);
+            metrics.event("WS_FROZEN_RETRYING");
+            closeSocket();
+            scheduleRetry(`No frames for ${(silentMs / 1000).toFixed(1)}s`);
+        } else if (silentMs > STALE_AFTER_MS && phase === 'live') {
+            metrics.event("WS_STREAM_STALE");
+            setLinkState({ phase: 'stale' });
         }
     }, 1000);
 
+    // Manual retry skips any remaining backoff and starts counting afresh
+    feedLink.setRetryHandler(() => {
+      closeSocket();
+      attempt = 0;
+      connect();
+    });
+
+    connect();
+
     return () => {
+      disposed = true;
+      feedLink.setRetryHandler(null);
+      window.clearTimeout(retryTimer);
       window.clearInterval(wdInterval);
-      if (ws.readyState === WebSocket.OPEN) ws.close();
+      closeSocket();
     };
-  }, [url, isActive, retryKey]);
+  }, [url, isActive]);
 
   return {
     feedCanvas: canvasRef.current,
     depthMm: depthRef.current,
     hands: handsRef.current,
+    depthMapRef,
     isConnected,
-    lastFrameTime: lastFrameTimeRef.current
+    lastFrameTime: lastFrameTimeRef.current,
+    retry: feedLink.retry
   };
 };
@@ -0,0 +1,69 @@
+
+import { useEffect, useRef } from 'react';
+import { AppSettings, CircleConfig } from '../types';
+import { getCanvasSize, normalizeUrl } from '../utils';
+import { AudioEngine, videoVoiceId, zoneVoiceConfig } from '../utils/audioEngine';
+import { ZoneEventBus } from '../utils/zoneEvents';
+
+interface UseZoneAudioProps {
+  engine: AudioEngine;
+  bus: ZoneEventBus;
+  settings: AppSettings;
+  circles: CircleConfig[];
+}
+
+/**
+ * Keeps the audio engine's voices in sync with the zone list and plays them
+ * on zone_filled / zone_released.
+ */
+export const useZoneAudio = ({ engine, bus, settings, circles }: UseZoneAudioProps) => {
+  const { width } = getCanvasSize(settings);
+
+  const voiceIdsRef = useRef<Set<string>>(new Set());
+
+  // Voices follow zone config (url, volume, pan from x position, envelope)
+  useEffect(() => {
+    const ids = new Set<string>();
+    circles.forEach(c => {
+      const url = c.audioPath ? normalizeUrl(c.audioPath) : '';
+      if (!url) return;
+      ids.add(c.id);
+      engine.setVoice(c.id, zoneVoiceConfig(c, url, settings));
+    });
+    for (const id of voiceIdsRef.current) {
+      if (!ids.has(id)) engine.removeVoice(id);
+    }
+    voiceIdsRef.current = ids;
+  }, [circles, width, settings.audioFadeInMs, settings.audioFadeOutMs]);
+
+  useEffect(() => {
+    engine.setMix({
+      masterVolume: settings.masterVolume,
+      ducking: settings.audioDucking,
+      duckLevel: settings.audioDuckLevel,
+      ambientUrl: settings.ambientPath ? normalizeUrl(settings.ambientPath) : '',
+      ambientVolume: settings.ambientVolume
+    });
+  }, [settings.masterVolume, settings.audioDucking, settings.audioDuckLevel, settings.ambientPath, settings.ambientVolume]);
+
+  useEffect(() => bus.subscribe(e => {
+    if (e.type === 'zone_filled') {
+      engine.start(e.circleId);
+      engine.start(videoVoiceId(e.circleId));
+    } else if (e.type === 'zone_released') {
+      engine.stop(e.circleId);
+      engine.stop(videoVoiceId(e.circleId));
+    }
+  }), [engine, bus]);
+
+  // Resume the AudioContext on the first user gesture
+  useEffect(() => {
+    const unlock = () => engine.unlock();
+    window.addEventListener('pointerdown', unlock);
+    window.addEventListener('keydown', unlock);
+    return () => {
+      window.removeEventListener('pointerdown', unlock);
+      window.removeEventListener('keydown', unlock);
+    };
+  }, [engine]);
+};
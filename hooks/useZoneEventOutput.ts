@@ -0,0 +1,80 @@
+
+import { useEffect, useRef } from 'react';
+import { encodeZoneEventJson, encodeZoneEventOsc, ZoneEventBus } from '../utils/zoneEvents';
+import { metrics } from '../utils/metrics';
+
+const RECONNECT_DELAY_MS = 2500;
+
+interface UseZoneEventOutputProps {
+  bus: ZoneEventBus;
+  url: string;
+  isActive: boolean;
+  format: 'json' | 'osc';
+}
+
+/**
+ * Publishes zone events over an outbound WebSocket, either as JSON text
+ * frames or as binary OSC messages (OSC-over-WebSocket).
+ */
+export const useZoneEventOutput = ({ bus, url, isActive, format }: UseZoneEventOutputProps) => {
+  const wsRef = useRef<WebSocket | null>(null);
+  const formatRef = useRef(format);
+  useEffect(() => { formatRef.current = format; }, [format]);
+
+  useEffect(() => {
+    if (!isActive || !url) return;
+
+    let normalizedUrl = url;
+    if (normalizedUrl.startsWith('https://')) normalizedUrl = normalizedUrl.replace('https://', 'wss://');
+    else if (normalizedUrl.startsWith('http://')) normalizedUrl = normalizedUrl.replace('http://', 'ws://');
+
+    let disposed = false;
+    let retryTimer: number | undefined;
+
+    const connect = () => {
+      let ws: WebSocket;
+      try {
+        ws = new WebSocket(normalizedUrl);
+      } catch (e) {
+        metrics.event("EVT_LINK_INVALID_URL");
+        return;
+      }
+      ws.binaryType = 'arraybuffer';
+      wsRef.current = ws;
+
+      ws.onopen = () => metrics.event("EVT_LINK_ESTABLISHED");
+      ws.onerror = () => metrics.event("EVT_LINK_ERROR");
+      ws.onclose = () => {
+        if (wsRef.current === ws) wsRef.current = null;
+        if (disposed) return;
+        metrics.event("EVT_LINK_CLOSED");
+        retryTimer = window.setTimeout(() => {
+          metrics.reconnect('events');
+          connect();
+        }, RECONNECT_DELAY_MS);
+      };
+    };
+
+    connect();
+
+    const unsubscribe = bus.subscribe((e) => {
+      const ws = wsRef.current;
+      if (!ws || ws.readyState !== WebSocket.OPEN) return;
+      try {
+        ws.send(formatRef.current === 'osc' ? encodeZoneEventOsc(e) : encodeZoneEventJson(e));
+      } catch (err) {
+        // Dropped; the close handler takes care of reconnecting
+      }
+    });
+
+    return () => {
+      disposed = true;
+      unsubscribe();
+      window.clearTimeout(retryTimer);
+      if (wsRef.current) {
+        wsRef.current.close();
+        wsRef.current = null;
+      }
+    };
+  }, [bus, url, isActive]);
+};
@@ -12,37 +12,118 @@ export interface RemoteHand {
     score?: number;
 }
 
-export interface CircleConfig {
+// A hand followed across frames; `id` stays stable while the hand is tracked
+export interface TrackedHand {
+    id: number;
+    landmarks: Point[]; // Normalized 0-1, already mirrored/rotated
+    tip: Point; // Index fingertip in canvas pixels
+}
+
+// Gesture that fills a zone
+export type TriggerMode = 'spin_cw' | 'spin_ccw' | 'dwell' | 'push' | 'swipe';
+
+// Interaction sensitivity. AppSettings holds the global defaults and every
+// field can be overridden per zone on CircleConfig.
+export interface ZoneTuning {
+  rotateTargetDeg: number; // Spin needed to fill
+  stillEpsDeg: number; // Angle changes below this are treated as jitter
+  leaveMarginRatio: number; // Extra exit distance (fraction of the zone's extent) once inside
+  leaveGraceMs: number; // How long a hand may be outside before the zone resets
+  spinGraceMs: number; // How long a filled spin stays filled without new rotation
+  rotSpeedDegPerSec: number; // Media rotation speed while filled
+  dwellMs: number; // 'dwell': hover time before firing
+  pushMm: number; // 'push': forward travel (depth decrease) before firing, professional mode only
+}
+
+// MIDI message sent when a zone fills (on) and releases (off)
+export interface ZoneMidiMapping {
+  mode: 'note' | 'cc';
+  channel: number; // 1-16
+  number: number; // Note number or CC number, 0-127
+  velocity: number; // Note-on velocity / CC "on" value, 0-127
+  progressCc: number | null; // Optional CC streaming spin progress (0-127)
+}
+
+// Zone outline. Every shape is positioned by the zone's (x, y); `radius` is the
+// circle/ring outer radius and is kept as the size hint for other shapes.
+export type ZoneShape =
+  | { kind: 'circle' }
+  | { kind: 'rect'; width: number; height: number } // Centred on (x, y)
+  | { kind: 'ring'; innerRadius: number }
+  | { kind: 'polygon'; points: Point[] }; // Vertices relative to (x, y)
+
+// Distance band in front of the camera that counts as "inside" a zone
+export interface ZoneDepthWindow {
+  nearMm: number;
+  farMm: number;
+}
+
+// Fitted wall for touch detection. Inverse depth is linear in normalized
+// camera position for a flat surface: 1/depthMm = a*u + b*v + c.
+export interface TouchPlane {
+  a: number;
+  b: number;
+  c: number;
+  rmsMm: number; // Fit residual
+  samples: number;
+}
+
+// Solved camera -> canvas mapping: a row-major 3x3 homography from normalized
+// camera coordinates to normalized output (projector) coordinates
+export interface CameraCalibration {
+  homography: number[];
+  errorPx: number; // RMS reprojection error of the targets
+  points: number; // Targets used in the solve
+}
+
+export interface CircleConfig extends Partial<ZoneTuning> {
   id: string;
   name: string; // User-editable name
   x: number;
   y: number;
   radius: number;
+  shape?: ZoneShape; // Defaults to a circle
   lineWidth: number;
   color: string;
   imgPath?: string;
   audioPath?: string;
   volume?: number; // 0.0 to 1.0
+  fadeInMs?: number; // Overrides AppSettings.audioFadeInMs
+  fadeOutMs?: number; // Overrides AppSettings.audioFadeOutMs
   isGif?: boolean;
+  videoPath?: string; // MP4/WebM clip shown inside the zone
+  videoMode?: 'loop' | 'once' | 'restart'; // Defaults to 'loop'
+  videoAudio?: boolean; // Play the clip's own soundtrack through the audio engine
+  trigger?: TriggerMode; // Defaults to 'spin_cw'
+  midi?: ZoneMidiMapping;
+  depthWindow?: ZoneDepthWindow; // Professional mode: the zone only activates for something inside this volume
 }
 
 // Runtime state that changes every frame (physics)
 export interface CircleRuntime {
   isFilled: boolean;
   wasFilled: boolean; // For edge detection
-  graceLeft: number;
+  lastInsideTime: number; // Last time the tip was inside (leave grace window)
   lastAngle: number | null;
   cwAccum: number; // Clockwise accumulation
   rotAngle: number; // Visual rotation for media
   lastCWTime: number;
   isHandInside: boolean;
+  progress: number; // 0-1 toward firing for the zone's gesture (drives the progress arc)
+  gestureStart: number; // When the current hand entered (dwell / swipe timing)
+  depthBaseline: number | null; // Farthest depth seen since entering (push)
+  entryPoint: Point | null; // Where the hand entered (swipe)
+  lastTip: Point | null; // Last tip seen inside the zone (swipe exit)
+  firedAt: number; // Last swipe trigger, latched for a short hold
+  reportedProgress: number; // Last progress step published as a zone_progress event
+  ownerId: number | null; // TrackedHand currently driving this circle
   
-  // Media Elements
+  // Media Elements (audio lives in the Web Audio engine, keyed by circle id)
   imgEl: HTMLImageElement | null;
-  audioEl: HTMLAudioElement | null;
+  videoEl: HTMLVideoElement | null;
+  videoKey: string; // url + audio routing the element was created for
   gifAnim: any | null; // Gifler instance
   gifCanvas: HTMLCanvasElement | null;
-  _resumeTime?: number;
 }
 
 export interface AppSettings {
@@ -63,17 +144,53 @@ export interface AppSettings {
   // Professional / WebSocket
   wsUrl: string;
   cameraIp: string; // For Femto Mega Ethernet
-  depthTriggerMm: number; // Z-axis threshold in mm
+  depthTriggerMm: number; // Z-axis threshold in mm (no touch plane)
+  touchPlane: TouchPlane | null; // Calibrated wall; when set, triggers on distance from it instead
+  touchDistanceMm: number; // How close to the wall counts as a touch
   streamMode: 'color' | 'depth'; // NEW: Stream visualization mode
+  depthMapEnabled: boolean; // Ask the bridge for a downsampled depth map (zone depth windows)
+  depthMinPixels: number; // Depth-map samples inside a zone's volume before it counts as occupied
   // Visuals
   backgroundColor: string;
+  statusOverlay: 'operator' | 'public' | 'hidden'; // Camera/bridge/model health on the canvas; 'hidden' only logs
   // Projection / Geometry
   borderRadius: number;
   mappingEnabled: boolean;
   isMappingEdit: boolean;
   mappingPoints: Point[]; // Normalized 0-1
+  cameraCalibration: CameraCalibration | null; // Replaces mirror/rotation for tip positions when set
+  // Zone editing
+  snapToGrid: boolean;
+  gridSize: number; // Scene px
+  snapToZones: boolean; // Align to other zones' edges and centres while dragging
+  // Interaction
+  zoneDefaults: ZoneTuning;
+  // Outbound zone events (lighting / show control)
+  eventsEnabled: boolean;
+  eventsWsUrl: string;
+  eventsFormat: 'json' | 'osc';
+  midiOutputId: string; // Empty = MIDI off
+  // Audio mix
+  masterVolume: number;
+  audioFadeInMs: number;
+  audioFadeOutMs: number;
+  audioDucking: boolean; // Lower other zones (and ambient) while the newest zone plays
+  audioDuckLevel: number;
+  ambientPath: string; // Optional background bed, loops continuously
+  ambientVolume: number;
 }
 
+export const DEFAULT_ZONE_TUNING: ZoneTuning = {
+  rotateTargetDeg: 90,
+  stillEpsDeg: 2,
+  leaveMarginRatio: 0.18,
+  leaveGraceMs: 170, // ~10 frames at 60 Hz
+  spinGraceMs: 2000,
+  rotSpeedDegPerSec: 45,
+  dwellMs: 1500,
+  pushMm: 80
+};
+
 export const DEFAULT_SETTINGS: AppSettings = {
   rotationDeg: 0,
   aspect: [4, 3],
@@ -91,8 +208,13 @@ export const DEFAULT_SETTINGS: AppSettings = {
   wsUrl: 'ws://localhost:8765',
   cameraIp: '', // Empty means USB mode
   depthTriggerMm: 1800, // Trigger when hand is closer than 1.8m (Increased for distance)
+  touchPlane: null,
+  touchDistanceMm: 60,
   streamMode: 'color', // Default to color stream
+  depthMapEnabled: false,
+  depthMinPixels: 12,
   backgroundColor: '#0b0f14',
+  statusOverlay: 'operator',
   borderRadius: 16,
   mappingEnabled: false,
   isMappingEdit: false,
@@ -102,7 +224,23 @@ export const DEFAULT_SETTINGS: AppSettings = {
     {x: 1, y: 0}, 
     {x: 1, y: 1}, 
     {x: 0, y: 1}
-  ]
+  ],
+  cameraCalibration: null,
+  snapToGrid: false,
+  gridSize: 40,
+  snapToZones: true,
+  zoneDefaults: DEFAULT_ZONE_TUNING,
+  eventsEnabled: false,
+  eventsWsUrl: 'ws://localhost:8766',
+  eventsFormat: 'json',
+  midiOutputId: '',
+  masterVolume: 1.0,
+  audioFadeInMs: 150,
+  audioFadeOutMs: 400,
+  audioDucking: false,
+  audioDuckLevel: 0.35,
+  ambientPath: '',
+  ambientVolume: 0.5
 };
 
 // Global declarations for external libraries loaded via CDN
@@ -1,5 +1,6 @@
 
-import { Point } from './types';
+import { AppSettings, CircleConfig, DEFAULT_ZONE_TUNING, Point, ZoneTuning } from './types';
+import { applyHomography, invertHomography } from './utils/meshWarp';
 
 export function normalizeUrl(url: string): string {
   if (!url) return '';
@@ -43,6 +44,57 @@ export function angleDiff(a: number, b: number): number {
   return d;
 }
 
+// Canvas resolution derived from the display short side and aspect ratio
+export function getCanvasSize(settings: AppSettings): { width: number; height: number } {
+  let width = settings.baseShortSide;
+  let height = settings.baseShortSide;
+  const [aw, ah] = settings.aspect;
+  if (aw > ah) width = Math.round(height * (aw / ah)); else height = Math.round(width * (ah / aw));
+  return { width, height };
+}
+
+// Normalized camera coordinates (0-1 over the visible viewport) -> canvas
+// pixels: through the solved camera calibration if there is one, otherwise
+// the view's mirror and rotation
+export function cameraToCanvas(x: number, y: number, settings: AppSettings, width: number, height: number): Point {
+  if (settings.cameraCalibration) {
+    const p = applyHomography(settings.cameraCalibration.homography, x, y);
+    return { x: p.x * width, y: p.y * height };
+  }
+  let px = x * width;
+  let py = y * height;
+  if (settings.mirrorView) px = width - px;
+  if (settings.rotationDeg !== 0) {
+    const cx = width / 2;
+    const cy = height / 2;
+    const rad = settings.rotationDeg * (Math.PI / 180);
+    const dx = px - cx;
+    const dy = py - cy;
+    px = dx * Math.cos(rad) - dy * Math.sin(rad) + cx;
+    py = dx * Math.sin(rad) + dy * Math.cos(rad) + cy;
+  }
+  return { x: px, y: py };
+}
+
+// Inverse of cameraToCanvas: canvas pixels -> normalized camera coordinates
+export function canvasToCamera(p: Point, settings: AppSettings, width: number, height: number): Point {
+  const inverse = settings.cameraCalibration && invertHomography(settings.cameraCalibration.homography);
+  if (inverse) return applyHomography(inverse, p.x / width, p.y / height);
+  let px = p.x;
+  let py = p.y;
+  if (settings.rotationDeg !== 0) {
+    const cx = width / 2;
+    const cy = height / 2;
+    const rad = -settings.rotationDeg * (Math.PI / 180);
+    const dx = px - cx;
+    const dy = py - cy;
+    px = dx * Math.cos(rad) - dy * Math.sin(rad) + cx;
+    py = dx * Math.sin(rad) + dy * Math.cos(rad) + cy;
+  }
+  if (settings.mirrorView) px = width - px;
+  return { x: px / width, y: py / height };
+}
+
 export function generateId(): string {
   return Math.random().toString(36).substr(2, 9);
 }
@@ -74,3 +126,14 @@ export function generateMeshPoints(count: number): Point[] {
   
   return points;
 }
+
+// Effective tuning for a zone: built-in defaults < global settings < zone overrides.
+// Physics resolves tuning here each step, and the panel shows the same effective values.
+export function resolveZoneTuning(c: CircleConfig, settings: AppSettings): ZoneTuning {
+  const t: ZoneTuning = { ...DEFAULT_ZONE_TUNING, ...settings.zoneDefaults };
+  for (const key of Object.keys(DEFAULT_ZONE_TUNING) as (keyof ZoneTuning)[]) {
+    const v = c[key];
+    if (typeof v === 'number' && Number.isFinite(v)) t[key] = v;
+  }
+  return t;
+}
@@ -0,0 +1,214 @@
+
+// Web Audio graph for zone sounds:
+//   zone element -> envelope gain -> stereo panner -> duck gain -\
+//   ambient bed element -> ambient gain -> duck gain -------------+-> master gain -> limiter -> output
+
+import { AppSettings, CircleConfig } from '../types';
+import { getCanvasSize } from '../utils';
+
+const LIMITER_THRESHOLD_DB = -3;
+const DUCK_RAMP_SEC = 0.25;
+
+export interface AudioVoiceConfig {
+  url: string;
+  volume: number; // 0-1
+  pan: number; // -1 (left) .. 1 (right)
+  fadeInMs: number;
+  fadeOutMs: number;
+  playToEnd?: boolean; // stop() leaves the clip sounding to its end (one-shot videos)
+}
+
+export interface AudioMixConfig {
+  masterVolume: number;
+  ducking: boolean;
+  duckLevel: number; // Gain applied to ducked voices, 0-1
+  ambientUrl: string;
+  ambientVolume: number;
+}
+
+interface Voice {
+  config: AudioVoiceConfig;
+  el: HTMLMediaElement;
+  source: MediaElementAudioSourceNode;
+  envelope: GainNode;
+  panner: StereoPannerNode;
+  duck: GainNode;
+  active: boolean;
+  startedAt: number; // Ordering for ducking: the newest active voice plays unducked
+  pauseTimer: number | undefined;
+}
+
+export const createAudioEngine = () => {
+  let ctx: AudioContext | null = null;
+  let master: GainNode | null = null;
+  let ambient: { url: string; el: HTMLAudioElement; gain: GainNode; duck: GainNode } | null = null;
+  const voices = new Map<string, Voice>();
+  let mix: AudioMixConfig = { masterVolume: 1, ducking: false, duckLevel: 0.35, ambientUrl: '', ambientVolume: 0.5 };
+  let startCounter = 0;
+
+  const ensureContext = (): AudioContext => {
+    if (ctx) return ctx;
+    ctx = new AudioContext();
+    const limiter = ctx.createDynamicsCompressor();
+    limiter.threshold.value = LIMITER_THRESHOLD_DB;
+    limiter.knee.value = 0;
+    limiter.ratio.value = 20;
+    limiter.attack.value = 0.003;
+    limiter.release.value = 0.25;
+    master = ctx.createGain();
+    master.gain.value = mix.masterVolume;
+    master.connect(limiter);
+    limiter.connect(ctx.destination);
+    return ctx;
+  };
+
+  const createElement = (url: string) => {
+    const el = new Audio(url);
+    el.crossOrigin = "anonymous";
+    el.loop = true;
+    return el;
+  };
+
+  const rampTo = (param: AudioParam, value: number, seconds: number) => {
+    const now = ensureContext().currentTime;
+    param.cancelScheduledValues(now);
+    param.setValueAtTime(param.value, now);
+    param.linearRampToValueAtTime(value, now + Math.max(seconds, 0.005));
+  };
+
+  // The most recently triggered zone plays at full level; other active zones
+  // and the ambient bed drop to duckLevel while ducking is enabled.
+  const applyDucking = () => {
+    if (!ctx) return;
+    let newest: Voice | null = null;
+    for (const v of voices.values()) {
+      if (v.active && (!newest || v.startedAt > newest.startedAt)) newest = v;
+    }
+    for (const v of voices.values()) {
+      const ducked = mix.ducking && newest !== null && v !== newest;
+      rampTo(v.duck.gain, ducked ? mix.duckLevel : 1, DUCK_RAMP_SEC);
+    }
+    if (ambient) rampTo(ambient.duck.gain, mix.ducking && newest ? mix.duckLevel : 1, DUCK_RAMP_SEC);
+  };
+
+  const disposeVoice = (v: Voice) => {
+    window.clearTimeout(v.pauseTimer);
+    v.el.pause();
+    v.source.disconnect();
+    v.envelope.disconnect();
+    v.panner.disconnect();
+    v.duck.disconnect();
+  };
+
+  // `element` lets a zone route media it already owns (e.g. a video's own
+  // audio track). Such elements can only ever be bound to one source node.
+  const setVoice = (id: string, config: AudioVoiceConfig, element?: HTMLMediaElement) => {
+    const existing = voices.get(id);
+    if (existing && existing.config.url === config.url && (!element || existing.el === element)) {
+      existing.config = config;
+      existing.panner.pan.value = Math.max(-1, Math.min(1, config.pan));
+      if (existing.active) rampTo(existing.envelope.gain, config.volume, 0.05);
+      return;
+    }
+    if (existing) disposeVoice(existing);
+
+    const ac = ensureContext();
+    const el = element || createElement(config.url);
+    const source = ac.createMediaElementSource(el);
+    const envelope = ac.createGain();
+    envelope.gain.value = 0;
+    const panner = ac.createStereoPanner();
+    panner.pan.value = Math.max(-1, Math.min(1, config.pan));
+    const duck = ac.createGain();
+    source.connect(envelope).connect(panner).connect(duck).connect(master!);
+
+    voices.set(id, { config, el, source, envelope, panner, duck, active: false, startedAt: 0, pauseTimer: undefined });
+    if (existing?.active) start(id);
+  };
+
+  const removeVoice = (id: string) => {
+    const v = voices.get(id);
+    if (!v) return;
+    disposeVoice(v);
+    voices.delete(id);
+    applyDucking();
+  };
+
+  // Fade in from wherever the clip was paused
+  const start = (id: string) => {
+    const v = voices.get(id);
+    if (!v) return;
+    window.clearTimeout(v.pauseTimer);
+    v.active = true;
+    v.startedAt = ++startCounter;
+    v.el.play().catch(() => {});
+    rampTo(v.envelope.gain, v.config.volume, v.config.fadeInMs / 1000);
+    applyDucking();
+  };
+
+  // Fade out, then pause so the next trigger resumes at the same position
+  const stop = (id: string) => {
+    const v = voices.get(id);
+    if (!v || !v.active) return;
+    v.active = false;
+    if (v.config.playToEnd) {
+      applyDucking();
+      return;
+    }
+    rampTo(v.envelope.gain, 0, v.config.fadeOutMs / 1000);
+    window.clearTimeout(v.pauseTimer);
+    v.pauseTimer = window.setTimeout(() => { if (!v.active) v.el.pause(); }, v.config.fadeOutMs + 50);
+    applyDucking();
+  };
+
+  const setMix = (next: AudioMixConfig) => {
+    mix = next;
+    if (master) rampTo(master.gain, mix.masterVolume, 0.05);
+
+    if (ambient && ambient.url !== mix.ambientUrl) {
+      ambient.el.pause();
+      ambient.gain.disconnect();
+      ambient.duck.disconnect();
+      ambient = null;
+    }
+    if (mix.ambientUrl && !ambient) {
+      const ac = ensureContext();
+      const el = createElement(mix.ambientUrl);
+      const gain = ac.createGain();
+      gain.gain.value = 0;
+      const duck = ac.createGain();
+      ac.createMediaElementSource(el).connect(gain).connect(duck).connect(master!);
+      ambient = { url: mix.ambientUrl, el, gain, duck };
+      el.play().catch(() => {});
+    }
+    if (ambient) rampTo(ambient.gain.gain, mix.ambientVolume, 0.5);
+    applyDucking();
+  };
+
+  // Browsers keep the context suspended until a user gesture
+  const unlock = () => {
+    const ac = ensureContext();
+    if (ac.state === 'suspended') ac.resume().catch(() => {});
+    if (ambient && ambient.el.paused) ambient.el.play().catch(() => {});
+  };
+
+  return { setVoice, removeVoice, start, stop, setMix, unlock, hasVoice: (id: string) => voices.has(id) };
+};
+
+export type AudioEngine = ReturnType<typeof createAudioEngine>;
+
+// A zone's video soundtrack is a separate voice so it can coexist with audioPath
+export const videoVoiceId = (circleId: string) => `${circleId}#video`;
+
+export const zoneVoiceConfig = (c: CircleConfig, url: string, settings: AppSettings): AudioVoiceConfig => {
+  const { width } = getCanvasSize(settings);
+  return {
+    url,
+    volume: c.volume ?? 1.0,
+    pan: width > 0 ? Math.max(-1, Math.min(1, (c.x / width) * 2 - 1)) : 0,
+    fadeInMs: c.fadeInMs ?? settings.audioFadeInMs,
+    fadeOutMs: c.fadeOutMs ?? settings.audioFadeOutMs
+  };
+};
+
+export const audioEngine = createAudioEngine();
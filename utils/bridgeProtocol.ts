@@ -0,0 +1,86 @@
+
+import { RemoteHand } from '../types';
+
+/**
+ * Binary feed frames, sent by bridges that accept `transport: 'binary'` in
+ * `set_config`. Bridges that don't know the option keep sending JSON text
+ * frames, which are still handled. All numbers are little-endian.
+ *
+ *   0   4  magic "NEUB"
+ *   4   1  version (1)
+ *   5   1  payload kind: 0 none, 1 JPEG, 2 PNG, 3 raw 16-bit depth (mm),
+ *           4 downsampled 16-bit depth map for zone triggering (not shown)
+ *   6   2  hand count
+ *   8   4  centre depth in mm, f32 (NaN = none)
+ *   12  2  payload width  (depth kinds only)
+ *   14  2  payload height (depth kinds only)
+ *   16     hands: per hand an f32 score, then 21 landmarks of f32 x, y, z, depth_mm (NaN = none)
+ *   ...    payload bytes up to the end of the message
+ *
+ * Every frame carries the bridge's latest hands, including depth-map frames.
+ */
+
+export const BRIDGE_FRAME_MAGIC = 0x4255454e; // "NEUB" read as a little-endian u32
+export const BRIDGE_FRAME_VERSION = 1;
+const HEADER_BYTES = 16;
+const HAND_LANDMARKS = 21;
+const HAND_BYTES = 4 + HAND_LANDMARKS * 16;
+
+export type BridgePayload =
+  | { kind: 'jpeg' | 'png'; bytes: Uint8Array<ArrayBuffer> }
+  | { kind: 'depth16'; width: number; height: number; depth: Uint16Array }
+  | { kind: 'depthmap'; width: number; height: number; depth: Uint16Array };
+
+export interface BridgeFrame {
+  hands: RemoteHand[];
+  centerDepthMm: number | null;
+  payload: BridgePayload | null;
+}
+
+const PAYLOAD_KINDS = [null, 'jpeg', 'png', 'depth16', 'depthmap'] as const;
+
+// Returns null for anything that isn't a well-formed v1 frame
+export const decodeBridgeFrame = (buf: ArrayBuffer): BridgeFrame | null => {
+  if (buf.byteLength < HEADER_BYTES) return null;
+  const view = new DataView(buf);
+  if (view.getUint32(0, true) !== BRIDGE_FRAME_MAGIC || view.getUint8(4) !== BRIDGE_FRAME_VERSION) return null;
+
+  const kind = PAYLOAD_KINDS[view.getUint8(5)];
+  if (kind === undefined) return null;
+  const handCount = view.getUint16(6, true);
+  const centre = view.getFloat32(8, true);
+  const payloadStart = HEADER_BYTES + handCount * HAND_BYTES;
+  if (payloadStart > buf.byteLength) return null;
+
+  const hands: RemoteHand[] = [];
+  let o = HEADER_BYTES;
+  for (let h = 0; h < handCount; h++) {
+    const score = view.getFloat32(o, true);
+    o += 4;
+    const landmarks: RemoteHand['landmarks'] = [];
+    for (let i = 0; i < HAND_LANDMARKS; i++, o += 16) {
+      const depth = view.getFloat32(o + 12, true);
+      landmarks.push({
+        x: view.getFloat32(o, true),
+        y: view.getFloat32(o + 4, true),
+        z: view.getFloat32(o + 8, true),
+        ...(Number.isNaN(depth) ? {} : { depth_mm: depth })
+      });
+    }
+    hands.push({ landmarks, score });
+  }
+
+  let payload: BridgePayload | null = null;
+  if (kind === 'jpeg' || kind === 'png') {
+    payload = { kind, bytes: new Uint8Array(buf, payloadStart) };
+  } else if (kind === 'depth16' || kind === 'depthmap') {
+    const width = view.getUint16(12, true);
+    const height = view.getUint16(14, true);
+    if (width === 0 || height === 0 || buf.byteLength - payloadStart < width * height * 2) return null;
+    const depth = new Uint16Array(width * height);
+    for (let i = 0, p = payloadStart; i < depth.length; i++, p += 2) depth[i] = view.getUint16(p, true);
+    payload = { kind, width, height, depth };
+  }
+
+  return { hands, centerDepthMm: Number.isNaN(centre) ? null : centre, payload };
+};
@@ -0,0 +1,37 @@
+
+import { CameraCalibration, Point } from '../types';
+import { applyHomography, solveHomography } from './meshWarp';
+
+// Targets projected during calibration, normalized output coordinates. A 3x3
+// grid inset from the edges, where a fingertip can still be seen whole.
+export const CALIBRATION_TARGETS: Point[] = [0.15, 0.5, 0.85].flatMap(y => [0.15, 0.5, 0.85].map(x => ({ x, y })));
+export const MIN_CALIBRATION_POINTS = 4;
+
+// A target and where the camera saw the fingertip touching it
+export interface CalibrationPair {
+  camera: Point; // Normalized camera coordinates
+  canvas: Point; // Normalized output coordinates
+}
+
+// What drawScene shows while calibrating (normalized output coordinates)
+export interface CalibrationOverlay {
+  target: Point | null;
+  progress: number; // 0-1 of the fingertip hold on the current target
+  captured: Point[];
+}
+
+/**
+ * Solves the camera -> canvas homography from the captured pairs and measures
+ * its reprojection error in canvas px. Null with too few or degenerate pairs.
+ */
+export const solveCameraCalibration = (pairs: CalibrationPair[], width: number, height: number): CameraCalibration | null => {
+  if (pairs.length < MIN_CALIBRATION_POINTS) return null;
+  const homography = solveHomography(pairs.map(p => p.camera), pairs.map(p => p.canvas));
+  if (!homography) return null;
+  const sq = pairs.reduce((sum, { camera, canvas }) => {
+    const p = applyHomography(homography, camera.x, camera.y);
+    return sum + ((p.x - canvas.x) * width) ** 2 + ((p.y - canvas.y) * height) ** 2;
+  }, 0);
+  const errorPx = Math.sqrt(sq / pairs.length);
+  return Number.isFinite(errorPx) ? { homography, errorPx, points: pairs.length } : null;
+};
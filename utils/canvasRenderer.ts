@@ -1,7 +1,12 @@
 
-import { AppSettings, CircleConfig, CircleRuntime, Point } from '../types';
-
-const ROTATE_TARGET_DEG = 90;
+import { AppSettings, CircleConfig, CircleRuntime, Point, TrackedHand } from '../types';
+import { drawWarped, getWarpMesh, squareToQuad, warpNormalized } from './meshWarp';
+import { EditOverlay } from './zoneArrange';
+import { StatusEntry, StatusSeverity } from './statusBoard';
+import { getZoneShape, traceZonePath, zoneBounds, zoneCentroid, zoneExtent, zoneHandles, zonePerimeter } from './zoneShape';
+import { isTouching, planeDepthAt, planeGapMm, touchGapMm, TouchSample } from './touchPlane';
+import { CalibrationOverlay } from './cameraCalibration';
+import { cameraToCanvas } from '../utils';
 
 interface DrawSceneParams {
     ctx: CanvasRenderingContext2D;
@@ -11,18 +16,45 @@ interface DrawSceneParams {
     circles: CircleConfig[];
     runtimeMap: Map<string, CircleRuntime>;
     editingId: string | null;
+    selectedIds?: string[];
+    editOverlay?: EditOverlay;
     backgroundImage: HTMLImageElement | null;
     sourceCanvas: HTMLCanvasElement | HTMLVideoElement | null;
-    landmarks: any;
-    tip: Point | null;
+    hands: TrackedHand[];
     depthMm: number | null;
     pulseVal: number;
-    cameraError?: string | null;
+    status?: StatusEntry[];
+    now?: number; // performance.now(), for status durations
+    draggingPointIndex?: number | null;
+    touchSamples?: TouchSample[]; // Touch-surface calibration in progress
+    calibrationOverlay?: CalibrationOverlay; // Camera alignment in progress
 }
 
+const MAPPING_GRID_LINES = 8;
+const MAPPING_GRID_SAMPLES = 24;
+const MAPPING_HANDLE_RADIUS = 10; // Visual only; useCanvasInput hit-tests a 20px radius
+const ZONE_HANDLE_SIZE = 8;
+const TOUCH_GRID_LINES = 6;
+const TARGET_RADIUS = 28;
+
+// Offscreen layer holding the projected content before it goes through the mapping mesh
+let warpLayer: HTMLCanvasElement | null = null;
+
+const getWarpLayer = (width: number, height: number): CanvasRenderingContext2D | null => {
+    if (!warpLayer) warpLayer = document.createElement('canvas');
+    if (warpLayer.width !== width || warpLayer.height !== height) {
+        warpLayer.width = width;
+        warpLayer.height = height;
+    }
+    const lctx = warpLayer.getContext('2d');
+    if (lctx) lctx.clearRect(0, 0, width, height);
+    return lctx;
+};
+
 export const drawScene = ({
     ctx, width, height, settings, circles, runtimeMap, 
-    editingId, backgroundImage, sourceCanvas, landmarks, tip, depthMm, pulseVal, cameraError
+    editingId, backgroundImage, sourceCanvas, hands, depthMm, pulseVal, status = [], now = 0,
+    draggingPointIndex = null, selectedIds = [], editOverlay, touchSamples, calibrationOverlay
 }: DrawSceneParams) => {
     const s = settings;
     
@@ -48,11 +80,21 @@ export const drawScene = ({
         ctx.clip();
     }
 
-    if (backgroundImage) {
-        ctx.drawImage(backgroundImage, 0, 0, width, height);
-    } else {
+    // The camera feed, skeleton and tip are in camera (output) space, so only
+    // the projected content (background + zones) is pushed through the mesh.
+    const mesh = getWarpMesh(s, width, height);
+    const showFeed = s.showCamera && !!sourceCanvas;
+    const layer = mesh ? getWarpLayer(width, height) : ctx;
+    if (!layer) { ctx.restore(); return; }
+
+    if (mesh && showFeed) {
         ctx.fillStyle = s.backgroundColor || '#0b0f14';
         ctx.fillRect(0, 0, width, height);
+    } else if (backgroundImage) {
+        layer.drawImage(backgroundImage, 0, 0, width, height);
+    } else {
+        layer.fillStyle = s.backgroundColor || '#0b0f14';
+        layer.fillRect(0, 0, width, height);
     }
     
     if (s.showCamera && sourceCanvas) {
@@ -92,96 +134,154 @@ export const drawScene = ({
     // --- Interaction Rendering ---
     circles.forEach(c => {
       const isEditing = c.id === editingId;
+      const isSelected = !isEditing && selectedIds.includes(c.id);
       const rt = runtimeMap.get(c.id);
       if (!rt) return;
 
       if (rt.isHandInside && !rt.isFilled) {
-        ctx.save();
-        ctx.shadowBlur = 20;
-        ctx.shadowColor = c.color;
+        layer.save();
+        layer.shadowBlur = 20;
+        layer.shadowColor = c.color;
       }
 
-      ctx.beginPath();
-      ctx.arc(c.x, c.y, c.radius, 0, Math.PI * 2);
+      const shape = getZoneShape(c);
+      const centre = zoneCentroid(c);
+      const extent = zoneExtent(c);
+
+      layer.beginPath();
+      traceZonePath(layer, c);
       
       if (rt.isFilled) {
         const pulseScale = 1 + (pulseVal * 0.05);
-        ctx.save();
-        ctx.translate(c.x, c.y);
-        ctx.scale(pulseScale, pulseScale);
-        ctx.translate(-c.x, -c.y);
-        ctx.fillStyle = 'rgba(255,255,255,0.85)';
-        ctx.fill();
-        ctx.restore();
+        layer.save();
+        layer.translate(centre.x, centre.y);
+        layer.scale(pulseScale, pulseScale);
+        layer.translate(-centre.x, -centre.y);
+        layer.fillStyle = 'rgba(255,255,255,0.85)';
+        layer.fill();
+        layer.restore();
       } else {
-        ctx.lineWidth = c.lineWidth;
-        ctx.strokeStyle = c.color;
-        ctx.stroke();
+        layer.lineWidth = c.lineWidth;
+        layer.strokeStyle = c.color;
+        layer.stroke();
       }
 
-      if (rt.isHandInside && !rt.isFilled) ctx.restore();
+      if (rt.isHandInside && !rt.isFilled) layer.restore();
 
-      if (!rt.isFilled && rt.cwAccum > 5) {
-         const progress = Math.min(rt.cwAccum / ROTATE_TARGET_DEG, 1);
-         ctx.beginPath();
-         ctx.arc(c.x, c.y, c.radius, -Math.PI / 2, -Math.PI / 2 + (progress * Math.PI * 2));
-         ctx.strokeStyle = 'rgba(255, 255, 255, 0.8)';
-         ctx.lineWidth = c.lineWidth + 2;
-         ctx.lineCap = 'round';
-         ctx.stroke();
+      if (!rt.isFilled && rt.progress > 0.05) {
+         layer.save();
+         layer.beginPath();
+         if (shape.kind === 'circle' || shape.kind === 'ring') {
+           // Counter-clockwise spins fill the arc the way the hand is moving
+           const sweep = rt.progress * Math.PI * 2 * (c.trigger === 'spin_ccw' ? -1 : 1);
+           layer.arc(c.x, c.y, c.radius, -Math.PI / 2, -Math.PI / 2 + sweep, sweep < 0);
+         } else {
+           // Other outlines fill along their perimeter
+           const perimeter = zonePerimeter(c);
+           layer.setLineDash([perimeter * rt.progress, perimeter]);
+           traceZonePath(layer, c);
+         }
+         layer.strokeStyle = 'rgba(255, 255, 255, 0.8)';
+         layer.lineWidth = c.lineWidth + 2;
+         layer.lineCap = 'round';
+         layer.stroke();
+         layer.restore();
       }
 
-      if (rt.imgEl || rt.gifCanvas) {
-        ctx.save();
-        ctx.translate(c.x, c.y);
-        ctx.rotate(rt.rotAngle);
-        ctx.beginPath();
-        ctx.arc(0, 0, c.radius, 0, Math.PI * 2);
-        ctx.clip();
+      const video = rt.videoEl && rt.videoEl.readyState >= 2 ? rt.videoEl : null;
+      if (video) {
+        // Cover-fit the clip over the shape's bounds; unlike images it doesn't spin
+        const b = zoneBounds(c);
+        const bw = b.maxX - b.minX, bh = b.maxY - b.minY;
+        const scale = Math.max(bw / (video.videoWidth || 1), bh / (video.videoHeight || 1));
+        const vw = video.videoWidth * scale, vh = video.videoHeight * scale;
+        layer.save();
+        layer.beginPath();
+        traceZonePath(layer, c);
+        layer.clip();
+        layer.drawImage(video, (b.minX + b.maxX - vw) / 2, (b.minY + b.maxY - vh) / 2, vw, vh);
+        layer.restore();
+      } else if (rt.imgEl || rt.gifCanvas) {
+        // Sized to the extent so the spinning image always covers the shape
+        layer.save();
+        layer.beginPath();
+        traceZonePath(layer, c);
+        layer.clip();
+        layer.translate(centre.x, centre.y);
+        layer.rotate(rt.rotAngle);
         const ds = rt.gifCanvas || rt.imgEl;
-        if (ds) ctx.drawImage(ds, -c.radius, -c.radius, c.radius * 2, c.radius * 2);
-        ctx.restore();
+        if (ds) layer.drawImage(ds, -extent, -extent, extent * 2, extent * 2);
+        layer.restore();
       }
 
       if (isEditing) {
-        ctx.save();
-        ctx.strokeStyle = '#4cc9f0';
-        ctx.setLineDash([5, 5]);
-        ctx.beginPath();
-        ctx.arc(c.x, c.y, c.radius + 8, 0, Math.PI * 2);
-        ctx.stroke();
-        ctx.restore();
+        layer.save();
+        layer.strokeStyle = '#4cc9f0';
+        layer.setLineDash([5, 5]);
+        layer.beginPath();
+        traceZonePath(layer, c, 8);
+        layer.stroke();
+        layer.setLineDash([]);
+        layer.fillStyle = '#ffffff';
+        for (const h of zoneHandles(c)) {
+          layer.fillRect(h.x - ZONE_HANDLE_SIZE / 2, h.y - ZONE_HANDLE_SIZE / 2, ZONE_HANDLE_SIZE, ZONE_HANDLE_SIZE);
+          layer.strokeRect(h.x - ZONE_HANDLE_SIZE / 2, h.y - ZONE_HANDLE_SIZE / 2, ZONE_HANDLE_SIZE, ZONE_HANDLE_SIZE);
+        }
+        layer.restore();
+      } else if (isSelected) {
+        // Rest of a multi-selection: outline only, handles belong to the edited zone
+        layer.save();
+        layer.strokeStyle = 'rgba(76, 201, 240, 0.7)';
+        layer.setLineDash([5, 5]);
+        layer.beginPath();
+        traceZonePath(layer, c, 8);
+        layer.stroke();
+        layer.restore();
       }
     });
 
-    if (landmarks && s.drawSkeleton) {
+    if (editOverlay) drawEditOverlay(layer, width, height, s, editOverlay);
+
+    if (mesh) drawWarped(ctx, layer.canvas, mesh);
+
+    if (s.drawSkeleton && hands.length > 0) {
          ctx.save();
          ctx.strokeStyle = '#00d1ff';
          ctx.fillStyle = '#00d1ff';
          ctx.lineWidth = 1.5;
          const conns = [[0,1],[1,2],[2,3],[3,4],[0,5],[5,6],[6,7],[7,8],[5,9],[9,10],[10,11],[11,12],[9,13],[13,14],[14,15],[15,16],[13,17],[17,18],[18,19],[19,20],[0,17]];
-         for(const [a,b] of conns) {
-             const p1 = landmarks[a], p2 = landmarks[b];
-             if(p1 && p2) {
+         for (const { landmarks } of hands) {
+             for(const [a,b] of conns) {
+                 const p1 = landmarks[a], p2 = landmarks[b];
+                 if(p1 && p2) {
+                     ctx.beginPath();
+                     ctx.moveTo(p1.x * width, p1.y * height);
+                     ctx.lineTo(p2.x * width, p2.y * height);
+                     ctx.stroke();
+                 }
+             }
+             for(const lm of landmarks) {
                  ctx.beginPath();
-                 ctx.moveTo(p1.x * width, p1.y * height);
-                 ctx.lineTo(p2.x * width, p2.y * height);
-                 ctx.stroke();
+                 ctx.arc(lm.x * width, lm.y * height, 2, 0, 2*Math.PI);
+                 ctx.fill();
              }
          }
-         for(const lm of landmarks) {
-             ctx.beginPath();
-             ctx.arc(lm.x * width, lm.y * height, 2, 0, 2*Math.PI);
-             ctx.fill();
-         }
          ctx.restore();
     }
 
-    if (tip && tip.x >= 0 && tip.x <= width && tip.y >= 0 && tip.y <= height) {
+    for (const { tip } of hands) {
+        if (tip.x < 0 || tip.x > width || tip.y < 0 || tip.y > height) continue;
         ctx.save();
         let color = '0,160,255'; 
-        if (s.cameraType === 'professional' && depthMm) {
-           color = depthMm < s.depthTriggerMm ? '255,50,50' : '255,200,0';
+        const tipDepth = tip.depth && tip.depth > 0 ? tip.depth : depthMm;
+        if (s.cameraType === 'professional' && tipDepth) {
+           color = isTouching(s, tip, tipDepth, width, height) ? '255,50,50' : '255,200,0';
+           const gap = touchGapMm(s, tip, tipDepth, width, height);
+           if (gap !== null) {
+               ctx.font = '600 12px monospace';
+               ctx.fillStyle = `rgb(${color})`;
+               ctx.fillText(`${Math.round(gap)}mm`, tip.x + 22, tip.y - 10);
+           }
         }
         const g = ctx.createRadialGradient(tip.x, tip.y, 0, tip.x, tip.y, 20);
         g.addColorStop(0, `rgba(${color},0.6)`);
@@ -193,5 +293,288 @@ export const drawScene = ({
         ctx.restore();
     }
 
+    if (s.cameraType === 'professional' && (touchSamples || (s.touchPlane && s.showCamera))) {
+        drawTouchPlane(ctx, width, height, s, touchSamples || []);
+    }
+
+    if (s.isMappingEdit) drawMappingOverlay(ctx, width, height, s.mappingPoints, draggingPointIndex);
+
+    if (calibrationOverlay) drawCalibrationTargets(ctx, width, height, calibrationOverlay);
+
+    if (s.statusOverlay !== 'hidden' && status.length > 0) drawStatusOverlay(ctx, width, height, status, s.statusOverlay === 'operator', now);
+
     ctx.restore(); 
 }
+
+const STATUS_COLORS: Record<StatusSeverity, string> = { error: '#ff4d4d', warning: '#ffb020', info: '#4cc9f0' };
+
+// Health badges in the top-left corner (output space, so they're never warped).
+// Operators also get the source, detail and how long the state has lasted.
+const drawStatusOverlay = (
+    ctx: CanvasRenderingContext2D,
+    width: number,
+    height: number,
+    entries: StatusEntry[],
+    detailed: boolean,
+    now: number
+) => {
+    const fontSize = Math.max(12, Math.round(Math.min(width, height) / 40));
+    const pad = fontSize * 0.6;
+    const lineH = fontSize * 1.3;
+    let y = fontSize;
+
+    ctx.save();
+    ctx.textBaseline = 'middle';
+    for (const e of entries) {
+        const color = STATUS_COLORS[e.severity];
+        const secs = Math.max(0, Math.floor((now - e.since) / 1000));
+        const sub = detailed ? `${e.source.toUpperCase()}${e.detail ? ` · ${e.detail}` : ''} · ${secs}s` : '';
+
+        ctx.font = `600 ${fontSize}px sans-serif`;
+        let textW = ctx.measureText(e.message).width;
+        if (sub) {
+            ctx.font = `${fontSize * 0.75}px monospace`;
+            textW = Math.max(textW, ctx.measureText(sub).width);
+        }
+        const dot = fontSize * 0.35;
+        const boxW = Math.min(width - fontSize * 2, pad * 3 + dot * 2 + textW);
+        const boxH = pad * 2 + lineH * (sub ? 1.8 : 1);
+
+        ctx.fillStyle = 'rgba(0, 0, 0, 0.7)';
+        ctx.fillRect(fontSize, y, boxW, boxH);
+        ctx.fillStyle = color;
+        ctx.fillRect(fontSize, y, 3, boxH);
+
+        const textX = fontSize + pad * 2 + dot * 2;
+        const midY = y + pad + lineH / 2;
+        ctx.globalAlpha = e.severity === 'error' ? 0.6 + 0.4 * Math.abs(Math.sin(now / 400)) : 1;
+        ctx.beginPath();
+        ctx.arc(fontSize + pad + dot, midY, dot, 0, Math.PI * 2);
+        ctx.fill();
+        ctx.globalAlpha = 1;
+
+        ctx.font = `600 ${fontSize}px sans-serif`;
+        ctx.fillStyle = '#ffffff';
+        ctx.fillText(e.message, textX, midY, boxW - (textX - fontSize) - pad);
+        if (sub) {
+            ctx.font = `${fontSize * 0.75}px monospace`;
+            ctx.fillStyle = 'rgba(255, 255, 255, 0.6)';
+            ctx.fillText(sub, textX, midY + lineH * 0.85, boxW - (textX - fontSize) - pad);
+        }
+        y += boxH + pad;
+        if (y > height - fontSize) break;
+    }
+    ctx.restore();
+};
+
+// Grid while dragging with grid snap on, snap guides and the rubber band (scene space)
+const drawEditOverlay = (
+    layer: CanvasRenderingContext2D,
+    width: number,
+    height: number,
+    s: AppSettings,
+    { guides, marquee, dragging }: EditOverlay
+) => {
+    layer.save();
+    layer.lineWidth = 1;
+    if (dragging && s.snapToGrid && s.gridSize >= 4) {
+        layer.strokeStyle = 'rgba(255, 255, 255, 0.08)';
+        layer.beginPath();
+        for (let x = 0; x <= width; x += s.gridSize) { layer.moveTo(x, 0); layer.lineTo(x, height); }
+        for (let y = 0; y <= height; y += s.gridSize) { layer.moveTo(0, y); layer.lineTo(width, y); }
+        layer.stroke();
+    }
+    if (guides.length > 0) {
+        layer.strokeStyle = '#ff4fd8';
+        layer.beginPath();
+        for (const g of guides) {
+            if (g.axis === 'x') { layer.moveTo(g.pos, 0); layer.lineTo(g.pos, height); }
+            else { layer.moveTo(0, g.pos); layer.lineTo(width, g.pos); }
+        }
+        layer.stroke();
+    }
+    if (marquee) {
+        const x = Math.min(marquee.from.x, marquee.to.x), y = Math.min(marquee.from.y, marquee.to.y);
+        const w = Math.abs(marquee.to.x - marquee.from.x), h = Math.abs(marquee.to.y - marquee.from.y);
+        layer.fillStyle = 'rgba(76, 201, 240, 0.08)';
+        layer.strokeStyle = 'rgba(76, 201, 240, 0.8)';
+        layer.setLineDash([4, 4]);
+        layer.fillRect(x, y, w, h);
+        layer.strokeRect(x, y, w, h);
+    }
+    layer.restore();
+};
+
+// Touch surface (output space): the fitted wall as a camera-aligned grid with
+// its distance at the corners and centre, plus any calibration samples
+const drawTouchPlane = (
+    ctx: CanvasRenderingContext2D,
+    width: number,
+    height: number,
+    s: AppSettings,
+    samples: TouchSample[]
+) => {
+    const plane = s.touchPlane;
+    const toCanvas = (u: number, v: number) => cameraToCanvas(u, v, s, width, height);
+    ctx.save();
+    ctx.font = '600 11px monospace';
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+
+    if (plane) {
+        ctx.strokeStyle = 'rgba(52, 211, 153, 0.3)';
+        ctx.lineWidth = 1;
+        ctx.beginPath();
+        for (let i = 0; i <= TOUCH_GRID_LINES; i++) {
+            const t = i / TOUCH_GRID_LINES;
+            const a = toCanvas(t, 0), b = toCanvas(t, 1), c = toCanvas(0, t), d = toCanvas(1, t);
+            ctx.moveTo(a.x, a.y); ctx.lineTo(b.x, b.y);
+            ctx.moveTo(c.x, c.y); ctx.lineTo(d.x, d.y);
+        }
+        ctx.stroke();
+
+        ctx.fillStyle = '#34d399';
+        for (const [u, v] of [[0.1, 0.1], [0.9, 0.1], [0.5, 0.5], [0.1, 0.9], [0.9, 0.9]]) {
+            const p = toCanvas(u, v);
+            const depth = planeDepthAt(plane, u, v);
+            ctx.fillText(Number.isFinite(depth) ? `${(depth / 1000).toFixed(2)}m` : '∞', p.x, p.y);
+        }
+        ctx.textAlign = 'left';
+        ctx.fillText(`TOUCH PLANE ±${plane.rmsMm.toFixed(1)}mm · ${s.touchDistanceMm}mm`, 12, height - 14);
+    }
+
+    // Samples: green when they sit on the fitted plane, amber for outliers
+    for (const sample of samples) {
+        const p = toCanvas(sample.u, sample.v);
+        const off = plane ? Math.abs(planeGapMm(plane, sample)) : 0;
+        ctx.strokeStyle = !plane || off <= Math.max(plane.rmsMm * 2, 5) ? '#34d399' : '#fbbf24';
+        ctx.lineWidth = 2;
+        ctx.beginPath();
+        ctx.moveTo(p.x - 6, p.y); ctx.lineTo(p.x + 6, p.y);
+        ctx.moveTo(p.x, p.y - 6); ctx.lineTo(p.x, p.y + 6);
+        ctx.stroke();
+    }
+    ctx.restore();
+};
+
+// Camera alignment (output space): the target to touch with its hold progress,
+// and dots where earlier targets were captured
+const drawCalibrationTargets = (
+    ctx: CanvasRenderingContext2D,
+    width: number,
+    height: number,
+    { target, progress, captured }: CalibrationOverlay
+) => {
+    ctx.save();
+    ctx.fillStyle = '#e879f9';
+    for (const c of captured) {
+        ctx.beginPath();
+        ctx.arc(c.x * width, c.y * height, 4, 0, Math.PI * 2);
+        ctx.fill();
+    }
+
+    if (target) {
+        const x = target.x * width, y = target.y * height;
+        ctx.strokeStyle = 'rgba(232, 121, 249, 0.25)';
+        ctx.lineWidth = 1;
+        ctx.beginPath();
+        ctx.moveTo(x, 0); ctx.lineTo(x, height);
+        ctx.moveTo(0, y); ctx.lineTo(width, y);
+        ctx.stroke();
+
+        ctx.strokeStyle = '#e879f9';
+        ctx.lineWidth = 2;
+        ctx.beginPath();
+        ctx.arc(x, y, TARGET_RADIUS, 0, Math.PI * 2);
+        ctx.moveTo(x + TARGET_RADIUS / 3, y);
+        ctx.arc(x, y, TARGET_RADIUS / 3, 0, Math.PI * 2);
+        ctx.stroke();
+
+        if (progress > 0) {
+            ctx.lineWidth = 5;
+            ctx.beginPath();
+            ctx.arc(x, y, TARGET_RADIUS + 6, -Math.PI / 2, -Math.PI / 2 + progress * Math.PI * 2);
+            ctx.stroke();
+        }
+    }
+    ctx.restore();
+};
+
+// Calibration overlay: test grid through the warp, mesh outline and numbered handles
+const drawMappingOverlay = (
+    ctx: CanvasRenderingContext2D,
+    width: number,
+    height: number,
+    points: Point[],
+    draggingPointIndex: number | null
+) => {
+    if (points.length < 4 || points.length % 4 !== 0) return;
+    const homography = points.length === 4 ? squareToQuad(points) : null;
+    const warp = (u: number, v: number) => {
+        const p = warpNormalized(points, u, v, homography);
+        return { x: p.x * width, y: p.y * height };
+    };
+
+    ctx.save();
+
+    // Subdivided grid, sampled along each line so curved (8/12 point) warps show their bend
+    ctx.strokeStyle = 'rgba(76, 201, 240, 0.35)';
+    ctx.lineWidth = 1;
+    for (let i = 1; i < MAPPING_GRID_LINES; i++) {
+        const t = i / MAPPING_GRID_LINES;
+        ctx.beginPath();
+        for (let k = 0; k <= MAPPING_GRID_SAMPLES; k++) {
+            const p = warp(t, k / MAPPING_GRID_SAMPLES);
+            if (k === 0) ctx.moveTo(p.x, p.y); else ctx.lineTo(p.x, p.y);
+        }
+        ctx.stroke();
+        ctx.beginPath();
+        for (let k = 0; k <= MAPPING_GRID_SAMPLES; k++) {
+            const p = warp(k / MAPPING_GRID_SAMPLES, t);
+            if (k === 0) ctx.moveTo(p.x, p.y); else ctx.lineTo(p.x, p.y);
+        }
+        ctx.stroke();
+    }
+
+    // Outline connecting the mesh points in order
+    ctx.strokeStyle = '#4cc9f0';
+    ctx.lineWidth = 2;
+    ctx.setLineDash([6, 4]);
+    ctx.beginPath();
+    points.forEach((p, i) => {
+        if (i === 0) ctx.moveTo(p.x * width, p.y * height); else ctx.lineTo(p.x * width, p.y * height);
+    });
+    ctx.closePath();
+    ctx.stroke();
+    ctx.setLineDash([]);
+
+    // Handles
+    ctx.font = 'bold 11px Rajdhani, sans-serif';
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    points.forEach((p, i) => {
+        const px = p.x * width;
+        const py = p.y * height;
+        const isActive = i === draggingPointIndex;
+
+        if (isActive) {
+            ctx.beginPath();
+            ctx.arc(px, py, MAPPING_HANDLE_RADIUS * 2, 0, Math.PI * 2);
+            ctx.fillStyle = 'rgba(250, 204, 21, 0.2)';
+            ctx.fill();
+        }
+
+        ctx.beginPath();
+        ctx.arc(px, py, MAPPING_HANDLE_RADIUS, 0, Math.PI * 2);
+        ctx.fillStyle = isActive ? '#facc15' : 'rgba(9, 9, 11, 0.85)';
+        ctx.fill();
+        ctx.lineWidth = 2;
+        ctx.strokeStyle = isActive ? '#fef08a' : '#4cc9f0';
+        ctx.stroke();
+
+        ctx.fillStyle = isActive ? '#09090b' : '#e0f7ff';
+        ctx.fillText(String(i + 1), px, py + 0.5);
+    });
+
+    ctx.restore();
+};
@@ -0,0 +1,89 @@
+
+import { CircleConfig, Point } from '../types';
+import { zoneBounds, zoneContains } from './zoneShape';
+
+// Raw depth from the bridge, row-major mm (0 = no reading), covering the same
+// view as the camera image
+export interface DepthMap {
+  width: number;
+  height: number;
+  depth: Uint16Array;
+  time: number; // performance.now() when received
+}
+
+export const DEPTH_MAP_MAX_AGE_MS = 500; // Older maps are ignored rather than holding zones on
+
+export interface ZoneDepthHit {
+  tip: Point; // Centroid of the occupied samples in scene px; depth = nearest reading
+  pixels: number;
+}
+
+// Scene px of every depth-map sample, as x,y pairs (NaN where `toScene` drops
+// the sample). Only depends on the map size and the view, so it is reused
+// across maps until one of those changes.
+export const mapDepthToScene = (
+  width: number,
+  height: number,
+  toScene: (u: number, v: number) => Point | null
+): Float32Array => {
+  const scene = new Float32Array(width * height * 2);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const p = toScene((x + 0.5) / width, (y + 0.5) / height);
+      const o = (y * width + x) * 2;
+      scene[o] = p ? p.x : NaN;
+      scene[o + 1] = p ? p.y : NaN;
+    }
+  }
+  return scene;
+};
+
+/**
+ * Finds what is physically inside each windowed zone: depth samples that land
+ * in the zone's outline and within its near/far band. `scene` holds each
+ * sample's scene position, from mapDepthToScene for the same map size.
+ * Zones with fewer than `minPixels` samples are left out.
+ */
+export const measureZoneDepth = (
+  map: DepthMap,
+  scene: Float32Array,
+  circles: CircleConfig[],
+  minPixels: number
+): Map<string, ZoneDepthHit> => {
+  const hits = new Map<string, ZoneDepthHit>();
+  const zones = circles.filter(c => c.depthWindow);
+  if (zones.length === 0) return hits;
+
+  // Cheap reject before the outline tests: outside every window's band
+  let lo = Infinity, hi = -Infinity;
+  for (const c of zones) {
+    lo = Math.min(lo, c.depthWindow!.nearMm);
+    hi = Math.max(hi, c.depthWindow!.farMm);
+  }
+
+  const bounds = zones.map(zoneBounds);
+  const acc = zones.map(() => ({ n: 0, sx: 0, sy: 0, nearest: Infinity }));
+  const { depth } = map;
+  for (let i = 0; i < depth.length; i++) {
+    const d = depth[i];
+    if (d === 0 || d < lo || d > hi) continue;
+    const x = scene[i * 2], y = scene[i * 2 + 1];
+    if (Number.isNaN(x)) continue;
+    for (let z = 0; z < zones.length; z++) {
+      const w = zones[z].depthWindow!, b = bounds[z];
+      if (d < w.nearMm || d > w.farMm || x < b.minX || x > b.maxX || y < b.minY || y > b.maxY) continue;
+      if (!zoneContains(zones[z], { x, y })) continue;
+      const a = acc[z];
+      a.n++;
+      a.sx += x;
+      a.sy += y;
+      a.nearest = Math.min(a.nearest, d);
+    }
+  }
+
+  zones.forEach((c, i) => {
+    const a = acc[i];
+    if (a.n >= minPixels) hits.set(c.id, { tip: { x: a.sx / a.n, y: a.sy / a.n, depth: a.nearest }, pixels: a.n });
+  });
+  return hits;
+};
@@ -0,0 +1,89 @@
+
+// Connection state of the camera bridge feed (useWebSocketFeed), shared with
+// the HUD, the control panel and BridgeManager.
+//
+//   idle ─► connecting ─► live ◄─► stale
+//               ▲  │        │        │
+//               │  ▼        ▼        ▼
+//             backoff ◄─────┴────────┘   (close, error or a stream frozen for too long;
+//                                         retried forever, at most BACKOFF_CAP_MS apart)
+//
+//   connecting ─► failed                  (invalid URL; manual retry only)
+
+export type FeedLinkPhase = 'idle' | 'connecting' | 'live' | 'stale' | 'backoff' | 'failed';
+
+export interface FeedLinkState {
+  phase: FeedLinkPhase;
+  url: string;
+  attempt: number; // Consecutive failed attempts; 0 once live
+  retryAt: number | null; // Epoch ms of the next automatic attempt while backing off
+  lastError: string | null; // Kept across phases for diagnostics
+  lastLiveAt: number | null; // Epoch ms
+  transport: 'json' | 'binary' | null; // Frame format the bridge answered with; null until the first frame
+  since: number; // Epoch ms the current phase began
+  pausedFrom: FeedLinkPhase | null; // Phase the link was in when it last went idle
+}
+
+const BACKOFF_BASE_MS = 500;
+const BACKOFF_CAP_MS = 30000; // Reached from attempt 7 on; a rebooting bridge is picked up within this
+
+// "Equal jitter": half the exponential delay is fixed, the other half random, so
+// several walls restarting together don't hammer the bridge in lockstep
+export const backoffDelay = (attempt: number, random = Math.random) => {
+  const exp = Math.min(BACKOFF_CAP_MS, BACKOFF_BASE_MS * 2 ** Math.max(0, attempt - 1));
+  return exp / 2 + random() * exp / 2;
+};
+
+// Short label for the HUD and panels, e.g. "BACKOFF #3 · 4s"
+export const describeFeedLink = (s: FeedLinkState, now = Date.now()): string => {
+  switch (s.phase) {
+    case 'backoff':
+      return s.retryAt === null
+        ? `BACKOFF #${s.attempt}`
+        : `BACKOFF #${s.attempt} · ${Math.max(0, Math.ceil((s.retryAt - now) / 1000))}s`;
+    case 'connecting':
+      return s.attempt > 0 ? `CONNECTING #${s.attempt + 1}` : 'CONNECTING';
+    default:
+      return s.phase.toUpperCase();
+  }
+};
+
+export const FEED_LINK_COLORS: Record<FeedLinkPhase, string> = {
+  idle: 'text-zinc-500',
+  connecting: 'text-cyan-400',
+  live: 'text-green-400',
+  stale: 'text-amber-400',
+  backoff: 'text-amber-400',
+  failed: 'text-red-400'
+};
+
+type Listener = () => void;
+
+export const createFeedLink = () => {
+  let state: FeedLinkState = { phase: 'idle', url: '', attempt: 0, retryAt: null, lastError: null, lastLiveAt: null, transport: null, since: Date.now(), pausedFrom: null };
+  const listeners = new Set<Listener>();
+  let retryHandler: (() => void) | null = null;
+
+  return {
+    get: () => state,
+    update: (patch: Partial<FeedLinkState>) => {
+      const phaseChanged = patch.phase !== undefined && patch.phase !== state.phase;
+      const pausedFrom = phaseChanged && patch.phase === 'idle' ? state.phase : state.pausedFrom;
+      state = { ...state, ...patch, pausedFrom, ...(phaseChanged ? { since: Date.now() } : {}) };
+      if (state.phase === 'live') state.lastLiveAt = Date.now();
+      listeners.forEach(fn => fn());
+    },
+    subscribe: (fn: Listener) => {
+      listeners.add(fn);
+      return () => { listeners.delete(fn); };
+    },
+    // The active feed registers how to reconnect right now
+    setRetryHandler: (fn: (() => void) | null) => { retryHandler = fn; },
+    canRetry: () => retryHandler !== null,
+    retry: () => { retryHandler?.(); }
+  };
+};
+
+export type FeedLink = ReturnType<typeof createFeedLink>;
+
+export const feedLink = createFeedLink();
@@ -0,0 +1,148 @@
+
+import { AppSettings, CircleConfig } from '../types';
+import { normalizeUrl } from '../utils';
+import { serializeLayout } from './layoutSchema';
+
+// Layout bundles are regular layout files whose media paths point at base64
+// assets stored alongside them ("asset:<id>"), so blob: URLs from FileButton
+// survive a reload or a move to another machine.
+
+const ASSET_PREFIX = 'asset:';
+
+const ZONE_MEDIA_FIELDS = ['imgPath', 'audioPath', 'videoPath'] as const;
+
+export interface BundleAsset {
+  mime: string;
+  data: string; // base64
+}
+
+export interface PackedLayoutMedia {
+  circles: CircleConfig[];
+  settings: AppSettings;
+  background: string | null;
+  assets: Record<string, BundleAsset>;
+  failed: string[]; // Paths that couldn't be fetched and were kept as plain references
+}
+
+const blobToBase64 = (blob: Blob) => new Promise<string>((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => {
+    const dataUrl = reader.result as string;
+    resolve(dataUrl.slice(dataUrl.indexOf(',') + 1));
+  };
+  reader.onerror = () => reject(reader.error);
+  reader.readAsDataURL(blob);
+});
+
+const base64ToBlob = (data: string, mime: string) => {
+  const bin = atob(data);
+  const bytes = new Uint8Array(bin.length);
+  for (let i = 0; i < bin.length; i++) bytes[i] = bin.charCodeAt(i);
+  return new Blob([bytes], { type: mime });
+};
+
+export const isLayoutBundle = (json: any): boolean => !!json && typeof json.assets === 'object' && json.assets !== null;
+
+/**
+ * Fetches the background and every zone/ambient media file and replaces their
+ * paths with asset references. Files are fetched one at a time to keep memory
+ * bounded; anything unreachable (e.g. a remote URL without CORS) is left as is.
+ */
+export const packLayoutMedia = async (
+  circles: CircleConfig[],
+  settings: AppSettings,
+  background: HTMLImageElement | null
+): Promise<PackedLayoutMedia> => {
+  const assets: Record<string, BundleAsset> = {};
+  const refs = new Map<string, string>(); // url -> asset reference
+  const failed: string[] = [];
+
+  const embed = async (path: string | undefined): Promise<string | undefined> => {
+    if (!path || path.startsWith(ASSET_PREFIX)) return path;
+    const url = normalizeUrl(path);
+    const known = refs.get(url);
+    if (known) return known;
+    try {
+      const res = await fetch(url);
+      if (!res.ok) throw new Error(`HTTP ${res.status}`);
+      const blob = await res.blob();
+      const id = String(refs.size + 1);
+      assets[id] = { mime: blob.type || 'application/octet-stream', data: await blobToBase64(blob) };
+      refs.set(url, ASSET_PREFIX + id);
+      return ASSET_PREFIX + id;
+    } catch (e) {
+      console.warn(`[Bundle] Could not embed ${path}:`, e);
+      failed.push(path);
+      return path;
+    }
+  };
+
+  const packedCircles: CircleConfig[] = [];
+  for (const c of circles) {
+    const packed = { ...c };
+    for (const field of ZONE_MEDIA_FIELDS) packed[field] = await embed(c[field]);
+    packedCircles.push(packed);
+  }
+
+  return {
+    circles: packedCircles,
+    settings: { ...settings, ambientPath: (await embed(settings.ambientPath)) || '' },
+    background: background ? (await embed(background.src)) || null : null,
+    assets,
+    failed
+  };
+};
+
+// A complete layout file with the background and media embedded
+export const createLayoutBundle = async (
+  circles: CircleConfig[],
+  settings: AppSettings,
+  background: HTMLImageElement | null
+) => {
+  const packed = await packLayoutMedia(circles, settings, background);
+  return {
+    data: {
+      ...serializeLayout(packed.circles, packed.settings),
+      hasBackground: !!background,
+      background: packed.background,
+      assets: packed.assets
+    },
+    failed: packed.failed
+  };
+};
+
+/**
+ * Turns a bundle's asset references back into object URLs. Paths that aren't
+ * asset references pass through untouched.
+ */
+export const unpackLayoutMedia = (json: any): { circles?: any[]; settings?: any; background: string | null; objectUrls: string[] } => {
+  const assets: Record<string, BundleAsset> = json.assets || {};
+  const urls = new Map<string, string>();
+
+  const resolve = (path: unknown) => {
+    if (typeof path !== 'string' || !path.startsWith(ASSET_PREFIX)) return path;
+    const id = path.slice(ASSET_PREFIX.length);
+    const asset = assets[id];
+    if (!asset || typeof asset.data !== 'string') {
+      console.warn(`[Bundle] Missing asset ${id}`);
+      return '';
+    }
+    if (!urls.has(id)) urls.set(id, URL.createObjectURL(base64ToBlob(asset.data, asset.mime || '')));
+    return urls.get(id)!;
+  };
+
+  return {
+    circles: Array.isArray(json.circles)
+      ? json.circles.map((c: any) => {
+          const out = { ...c };
+          for (const field of ZONE_MEDIA_FIELDS) if (field in out) out[field] = resolve(out[field]);
+          return out;
+        })
+      : json.circles,
+    settings: json.settings && typeof json.settings === 'object'
+      ? { ...json.settings, ...('ambientPath' in json.settings ? { ambientPath: resolve(json.settings.ambientPath) } : {}) }
+      : json.settings,
+    background: (resolve(json.background) as string) || null,
+    objectUrls: Array.from(urls.values())
+  };
+};
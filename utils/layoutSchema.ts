@@ -0,0 +1,294 @@
+
+import { AppSettings, CircleConfig, DEFAULT_SETTINGS, DEFAULT_ZONE_TUNING, ZoneTuning } from '../types';
+
+// Layout files: { version, circles, settings, ...extras }. Older files are
+// migrated step by step up to LAYOUT_VERSION, then validated field by field.
+
+export const LAYOUT_VERSION = 'react-2.0';
+
+// Session-only state that must never be written to or restored from a file
+const TRANSIENT_SETTINGS = ['isMappingEdit'] as const;
+type PersistedSettingKey = Exclude<keyof AppSettings, typeof TRANSIENT_SETTINGS[number]>;
+
+interface Migration {
+  from: string;
+  to: string;
+  migrate: (json: any) => any;
+}
+
+// Files written before versioning have no `version` at all
+const LEGACY_VERSION = 'legacy';
+
+const MIGRATIONS: Migration[] = [
+  {
+    from: LEGACY_VERSION,
+    to: 'react-1.0',
+    migrate: (json) => ({
+      ...json,
+      circles: Array.isArray(json.circles)
+        ? json.circles.map((c: any, i: number) => (c && typeof c === 'object' ? { ...c, name: c.name || `Circle ${i + 1}` } : c))
+        : json.circles
+    })
+  },
+  {
+    from: 'react-1.0',
+    to: 'react-2.0',
+    // 1.0 saved the whole settings object, including editor state
+    migrate: (json) => {
+      if (!json.settings || typeof json.settings !== 'object') return json;
+      const settings = { ...json.settings };
+      for (const key of TRANSIENT_SETTINGS) delete settings[key];
+      return { ...json, settings };
+    }
+  }
+];
+
+// --- Field checks ---
+// Each returns an error message, or null when the value is acceptable
+
+type Check = (v: unknown) => string | null;
+
+const num = (min = -Infinity, max = Infinity): Check => (v) => {
+  if (typeof v !== 'number' || !Number.isFinite(v)) return 'expected a number';
+  if (v < min) return `must be at least ${min}`;
+  if (v > max) return `must be at most ${max}`;
+  return null;
+};
+const str: Check = (v) => (typeof v === 'string' ? null : 'expected text');
+const bool: Check = (v) => (typeof v === 'boolean' ? null : 'expected true/false');
+const oneOf = (values: readonly unknown[]): Check => (v) =>
+  values.includes(v) ? null : `expected one of ${values.map(x => JSON.stringify(x)).join(', ')}`;
+const nullable = (check: Check): Check => (v) => (v === null ? null : check(v));
+
+// Checks every listed field of an object; the first failure names the field
+const fields = (spec: Record<string, Check>): Check => (v) => {
+  if (!v || typeof v !== 'object' || Array.isArray(v)) return 'expected an object';
+  for (const [key, check] of Object.entries(spec)) {
+    const err = check((v as any)[key]);
+    if (err) return `${key}: ${err}`;
+  }
+  return null;
+};
+const point: Check = fields({ x: num(), y: num() });
+const listOf = (check: Check, minLength = 0): Check => (v) => {
+  if (!Array.isArray(v)) return 'expected a list';
+  if (v.length < minLength) return `needs at least ${minLength} entries`;
+  for (let i = 0; i < v.length; i++) {
+    const err = check(v[i]);
+    if (err) return `[${i}] ${err}`;
+  }
+  return null;
+};
+
+const zoneShape: Check = (v) => {
+  const kind = (v as any)?.kind;
+  switch (kind) {
+    case 'circle': return null;
+    case 'rect': return fields({ width: num(1), height: num(1) })(v);
+    case 'ring': return fields({ innerRadius: num(0) })(v);
+    case 'polygon': return fields({ points: listOf(point, 3) })(v);
+    default: return 'kind: expected one of "circle", "rect", "ring", "polygon"';
+  }
+};
+
+const TUNING_CHECKS: Record<keyof ZoneTuning, Check> = {
+  rotateTargetDeg: num(1),
+  stillEpsDeg: num(0),
+  leaveMarginRatio: num(0),
+  leaveGraceMs: num(0),
+  spinGraceMs: num(0),
+  rotSpeedDegPerSec: num(),
+  dwellMs: num(1),
+  pushMm: num(1)
+};
+
+type RequiredZoneKey = 'id' | 'name' | 'x' | 'y' | 'radius' | 'lineWidth' | 'color';
+
+const ZONE_REQUIRED: Record<RequiredZoneKey, Check> = {
+  id: str,
+  name: str,
+  x: num(),
+  y: num(),
+  radius: num(1),
+  lineWidth: num(0),
+  color: str
+};
+
+// Every CircleConfig field must appear in exactly one of these two tables
+const ZONE_OPTIONAL: Record<Exclude<keyof CircleConfig, RequiredZoneKey>, Check> = {
+  ...TUNING_CHECKS,
+  shape: zoneShape,
+  imgPath: str,
+  audioPath: str,
+  volume: num(0, 1),
+  fadeInMs: num(0),
+  fadeOutMs: num(0),
+  isGif: bool,
+  videoPath: str,
+  videoMode: oneOf(['loop', 'once', 'restart']),
+  videoAudio: bool,
+  trigger: oneOf(['spin_cw', 'spin_ccw', 'dwell', 'push', 'swipe']),
+  midi: fields({
+    mode: oneOf(['note', 'cc']),
+    channel: num(1, 16),
+    number: num(0, 127),
+    velocity: num(0, 127),
+    progressCc: nullable(num(0, 127))
+  }),
+  depthWindow: (v) => fields({ nearMm: num(0), farMm: num(0) })(v) || ((v as any).farMm > (v as any).nearMm ? null : 'farMm must be beyond nearMm')
+};
+
+const SETTINGS_CHECKS: Record<PersistedSettingKey, Check> = {
+  rotationDeg: num(),
+  aspect: (v) => (Array.isArray(v) && v.length === 2 && v.every(n => typeof n === 'number' && n > 0) ? null : 'expected [width, height]'),
+  baseShortSide: num(1),
+  analysisShortSide: num(1),
+  scale: num(0),
+  analysisFPS: num(1),
+  showCamera: bool,
+  mirrorView: bool,
+  drawSkeleton: bool,
+  maxHands: num(1),
+  useCustomAspect: bool,
+  cameraType: oneOf(['standard', 'professional']),
+  deviceId: str,
+  wsUrl: str,
+  cameraIp: str,
+  depthTriggerMm: num(0),
+  touchPlane: nullable(fields({ a: num(), b: num(), c: num(), rmsMm: num(0), samples: num(3) })),
+  touchDistanceMm: num(1),
+  streamMode: oneOf(['color', 'depth']),
+  depthMapEnabled: bool,
+  depthMinPixels: num(1),
+  backgroundColor: str,
+  statusOverlay: oneOf(['operator', 'public', 'hidden']),
+  borderRadius: num(0),
+  mappingEnabled: bool,
+  mappingPoints: (v) => listOf(point)(v) || ([4, 8, 12].includes((v as any[]).length) ? null : 'expected 4, 8 or 12 points'),
+  cameraCalibration: nullable(fields({
+    homography: (v) => (Array.isArray(v) && v.length === 9 && v.every(n => typeof n === 'number' && Number.isFinite(n)) ? null : 'expected 9 numbers'),
+    errorPx: num(0),
+    points: num(4)
+  })),
+  snapToGrid: bool,
+  gridSize: num(1),
+  snapToZones: bool,
+  zoneDefaults: (v) => {
+    if (!v || typeof v !== 'object') return 'expected an object';
+    for (const [key, check] of Object.entries(TUNING_CHECKS)) {
+      const value = (v as any)[key];
+      const err = value === undefined ? null : check(value); // Missing entries fall back to built-in defaults
+      if (err) return `${key}: ${err}`;
+    }
+    return null;
+  },
+  eventsEnabled: bool,
+  eventsWsUrl: str,
+  eventsFormat: oneOf(['json', 'osc']),
+  midiOutputId: str,
+  masterVolume: num(0, 1),
+  audioFadeInMs: num(0),
+  audioFadeOutMs: num(0),
+  audioDucking: bool,
+  audioDuckLevel: num(0, 1),
+  ambientPath: str,
+  ambientVolume: num(0, 1)
+};
+
+export interface ParsedLayout {
+  circles: CircleConfig[];
+  settings: AppSettings;
+  warnings: string[]; // Ignored/unknown fields; the layout still loads
+}
+
+export type LayoutParseResult = ({ ok: true } & ParsedLayout) | { ok: false; errors: string[] };
+
+const zoneLabel = (c: any, i: number) => `Zone ${i + 1}${c && typeof c.name === 'string' && c.name ? ` "${c.name}"` : ''}`;
+
+/**
+ * Migrates and validates a parsed layout file. Settings missing from the file
+ * keep their value from `base`; anything present but malformed is reported,
+ * with the zone and field it belongs to, and the layout is rejected as a whole.
+ */
+export const parseLayout = (input: unknown, base: AppSettings = DEFAULT_SETTINGS): LayoutParseResult => {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    return { ok: false, errors: ['File is not a layout (expected a JSON object)'] };
+  }
+
+  let json: any = input;
+  let version: string = typeof json.version === 'string' ? json.version : LEGACY_VERSION;
+  while (version !== LAYOUT_VERSION) {
+    const step = MIGRATIONS.find(m => m.from === version);
+    if (!step) return { ok: false, errors: [`Unsupported layout version "${version}" (this app reads up to ${LAYOUT_VERSION})`] };
+    json = step.migrate(json);
+    version = step.to;
+  }
+
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  const settings: AppSettings = { ...base };
+  if (json.settings !== undefined) {
+    if (!json.settings || typeof json.settings !== 'object') {
+      errors.push('settings: expected an object');
+    } else {
+      for (const [key, value] of Object.entries(json.settings)) {
+        const check = (SETTINGS_CHECKS as Record<string, Check>)[key];
+        if (!check) {
+          warnings.push(`settings.${key}: unknown setting, ignored`);
+          continue;
+        }
+        const err = check(value);
+        if (err) errors.push(`settings.${key}: ${err}`);
+        else (settings as any)[key] = value;
+      }
+      settings.zoneDefaults = { ...DEFAULT_ZONE_TUNING, ...settings.zoneDefaults };
+    }
+  }
+
+  const circles: CircleConfig[] = [];
+  if (json.circles !== undefined && !Array.isArray(json.circles)) {
+    errors.push('circles: expected a list of zones');
+  } else {
+    const seen = new Set<string>();
+    (json.circles || []).forEach((raw: any, i: number) => {
+      const label = zoneLabel(raw, i);
+      if (!raw || typeof raw !== 'object') {
+        errors.push(`${label}: expected an object`);
+        return;
+      }
+      const zone: any = {};
+      for (const [key, check] of Object.entries(ZONE_REQUIRED)) {
+        const err = raw[key] === undefined ? 'missing' : check(raw[key]);
+        if (err) errors.push(`${label} › ${key}: ${err}`);
+        else zone[key] = raw[key];
+      }
+      for (const [key, value] of Object.entries(raw)) {
+        if (key in ZONE_REQUIRED || value === undefined) continue;
+        const check = (ZONE_OPTIONAL as Record<string, Check>)[key];
+        if (!check) {
+          warnings.push(`${label} › ${key}: unknown field, ignored`);
+          continue;
+        }
+        const err = check(value);
+        if (err) errors.push(`${label} › ${key}: ${err}`);
+        else zone[key] = value;
+      }
+      if (typeof zone.id === 'string') {
+        if (seen.has(zone.id)) errors.push(`${label} › id: duplicate id "${zone.id}"`);
+        seen.add(zone.id);
+      }
+      circles.push(zone as CircleConfig);
+    });
+  }
+
+  if (errors.length > 0) return { ok: false, errors };
+  return { ok: true, circles, settings, warnings };
+};
+
+// The on-disk form of the current layout; transient settings are left out
+export const serializeLayout = (circles: CircleConfig[], settings: AppSettings) => {
+  const persisted: Partial<AppSettings> = { ...settings };
+  for (const key of TRANSIENT_SETTINGS) delete persisted[key];
+  return { version: LAYOUT_VERSION, circles, settings: persisted };
+};
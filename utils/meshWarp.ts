@@ -0,0 +1,295 @@
+
+import { Point } from '../types';
+
+// Grid resolution used to approximate the warp with affine triangles.
+// 12 is divisible by the 1/2/3 points-per-side of the 4/8/12 meshes,
+// so every mesh point lands exactly on a grid vertex.
+const WARP_SUBDIVISIONS = 12;
+// Clip triangles are grown slightly to hide antialiasing seams between cells
+const SEAM_BLEED_PX = 0.75;
+
+// 3x3 projective matrix stored row-major: [a, b, c, d, e, f, g, h, 1]
+export type Homography = number[];
+
+export interface WarpMesh {
+  key: string;
+  width: number;
+  height: number;
+  points: Point[]; // Normalized mesh points the grid was built from
+  cols: number;
+  rows: number;
+  src: Point[]; // Grid vertices in scene pixels (unwarped)
+  dst: Point[]; // Same vertices after the warp, in output pixels
+  homography: Homography | null; // Exact mapping for 4-point meshes
+  inverse: Homography | null;
+}
+
+/**
+ * Unit square -> quad (TL, TR, BR, BL) projective mapping (Heckbert).
+ */
+export const squareToQuad = (q: Point[]): Homography => {
+  const [p0, p1, p2, p3] = q;
+  const dx1 = p1.x - p2.x, dx2 = p3.x - p2.x, dx3 = p0.x - p1.x + p2.x - p3.x;
+  const dy1 = p1.y - p2.y, dy2 = p3.y - p2.y, dy3 = p0.y - p1.y + p2.y - p3.y;
+
+  let g = 0, h = 0;
+  const det = dx1 * dy2 - dx2 * dy1;
+  if ((dx3 !== 0 || dy3 !== 0) && Math.abs(det) > 1e-12) {
+    g = (dx3 * dy2 - dx2 * dy3) / det;
+    h = (dx1 * dy3 - dx3 * dy1) / det;
+  }
+
+  return [
+    p1.x - p0.x + g * p1.x, p3.x - p0.x + h * p3.x, p0.x,
+    p1.y - p0.y + g * p1.y, p3.y - p0.y + h * p3.y, p0.y,
+    g, h, 1
+  ];
+};
+
+export const invertHomography = (m: Homography): Homography | null => {
+  const [a, b, c, d, e, f, g, h, i] = m;
+  const A = e * i - f * h, B = c * h - b * i, C = b * f - c * e;
+  const D = f * g - d * i, E = a * i - c * g, F = c * d - a * f;
+  const G = d * h - e * g, H = b * g - a * h, I = a * e - b * d;
+  const det = a * A + b * D + c * G;
+  if (Math.abs(det) < 1e-12) return null;
+  return [A / det, B / det, C / det, D / det, E / det, F / det, G / det, H / det, I / det];
+};
+
+export const applyHomography = (m: Homography, x: number, y: number): Point => {
+  const w = m[6] * x + m[7] * y + m[8];
+  return { x: (m[0] * x + m[1] * y + m[2]) / w, y: (m[3] * x + m[4] * y + m[5]) / w };
+};
+
+/**
+ * Least-squares homography taking each src point to its dst point (DLT with
+ * the last entry fixed at 1). Needs 4+ pairs, no three collinear; null otherwise.
+ */
+export const solveHomography = (src: Point[], dst: Point[]): Homography | null => {
+  if (src.length < 4 || src.length !== dst.length) return null;
+
+  // Normal equations (A^T A) h = A^T b, two rows of A per pair
+  const ata = Array.from({ length: 8 }, () => new Array(8).fill(0));
+  const atb = new Array(8).fill(0);
+  const addRow = (row: number[], rhs: number) => {
+    for (let i = 0; i < 8; i++) {
+      atb[i] += row[i] * rhs;
+      for (let j = 0; j < 8; j++) ata[i][j] += row[i] * row[j];
+    }
+  };
+  src.forEach(({ x, y }, k) => {
+    const { x: u, y: v } = dst[k];
+    addRow([x, y, 1, 0, 0, 0, -u * x, -u * y], u);
+    addRow([0, 0, 0, x, y, 1, -v * x, -v * y], v);
+  });
+
+  // Gaussian elimination with partial pivoting
+  for (let c = 0; c < 8; c++) {
+    let pivot = c;
+    for (let r = c + 1; r < 8; r++) if (Math.abs(ata[r][c]) > Math.abs(ata[pivot][c])) pivot = r;
+    if (Math.abs(ata[pivot][c]) < 1e-12) return null;
+    [ata[c], ata[pivot]] = [ata[pivot], ata[c]];
+    [atb[c], atb[pivot]] = [atb[pivot], atb[c]];
+    for (let r = c + 1; r < 8; r++) {
+      const f = ata[r][c] / ata[c][c];
+      for (let k = c; k < 8; k++) ata[r][k] -= f * ata[c][k];
+      atb[r] -= f * atb[c];
+    }
+  }
+  const h = new Array(8).fill(0);
+  for (let r = 7; r >= 0; r--) {
+    let sum = atb[r];
+    for (let k = r + 1; k < 8; k++) sum -= ata[r][k] * h[k];
+    h[r] = sum / ata[r][r];
+  }
+  return [...h, 1];
+};
+
+// Splits the perimeter list produced by generateMeshPoints into four edges,
+// each ordered along the increasing u (top/bottom) or v (left/right) axis.
+const meshEdges = (points: Point[]) => {
+  const n = points.length / 4;
+  const at = (i: number) => points[i % points.length];
+  const run = (start: number) => Array.from({ length: n + 1 }, (_, i) => at(start + i));
+  return {
+    top: run(0),
+    right: run(n),
+    bottom: run(2 * n).reverse(),
+    left: run(3 * n).reverse()
+  };
+};
+
+const samplePolyline = (line: Point[], t: number): Point => {
+  const segs = line.length - 1;
+  const idx = Math.min(Math.floor(t * segs), segs - 1);
+  const local = t * segs - idx;
+  const a = line[idx], b = line[idx + 1];
+  return { x: a.x + (b.x - a.x) * local, y: a.y + (b.y - a.y) * local };
+};
+
+/**
+ * Maps a normalized scene coordinate through the mesh.
+ * 4 points use a perspective homography, 8/12 points a Coons patch
+ * bounded by the piecewise-linear edges of the mesh.
+ */
+export const warpNormalized = (points: Point[], u: number, v: number, homography?: Homography | null): Point => {
+  if (points.length === 4) {
+    return applyHomography(homography || squareToQuad(points), u, v);
+  }
+
+  const { top, right, bottom, left } = meshEdges(points);
+  const c0 = samplePolyline(top, u), c1 = samplePolyline(bottom, u);
+  const d0 = samplePolyline(left, v), d1 = samplePolyline(right, v);
+  const p00 = top[0], p10 = top[top.length - 1], p01 = bottom[0], p11 = bottom[bottom.length - 1];
+
+  const blend = (k: 'x' | 'y') =>
+    (1 - v) * c0[k] + v * c1[k] + (1 - u) * d0[k] + u * d1[k]
+    - ((1 - u) * (1 - v) * p00[k] + u * (1 - v) * p10[k] + (1 - u) * v * p01[k] + u * v * p11[k]);
+
+  return { x: blend('x'), y: blend('y') };
+};
+
+export const buildWarpMesh = (points: Point[], width: number, height: number, subdivisions = WARP_SUBDIVISIONS): WarpMesh => {
+  const homography = points.length === 4 ? squareToQuad(points) : null;
+  const cols = subdivisions, rows = subdivisions;
+  const src: Point[] = [];
+  const dst: Point[] = [];
+
+  for (let r = 0; r <= rows; r++) {
+    for (let c = 0; c <= cols; c++) {
+      const u = c / cols, v = r / rows;
+      const w = warpNormalized(points, u, v, homography);
+      src.push({ x: u * width, y: v * height });
+      dst.push({ x: w.x * width, y: w.y * height });
+    }
+  }
+
+  return {
+    key: meshKey(points, width, height),
+    width, height, points, cols, rows, src, dst,
+    homography,
+    inverse: homography ? invertHomography(homography) : null
+  };
+};
+
+const meshKey = (points: Point[], width: number, height: number) =>
+  `${width}x${height}:${points.map(p => `${p.x.toFixed(5)},${p.y.toFixed(5)}`).join(';')}`;
+
+const isValidMesh = (points: Point[]) => points.length >= 4 && points.length % 4 === 0;
+
+let cachedMesh: WarpMesh | null = null;
+
+/**
+ * Returns the warp mesh for the current settings, or null when mapping is off.
+ * The last mesh is cached because points only change while editing.
+ */
+export const getWarpMesh = (
+  settings: { mappingEnabled: boolean; mappingPoints: Point[] },
+  width: number,
+  height: number
+): WarpMesh | null => {
+  if (!settings.mappingEnabled || !isValidMesh(settings.mappingPoints)) return null;
+  const key = meshKey(settings.mappingPoints, width, height);
+  if (!cachedMesh || cachedMesh.key !== key) {
+    cachedMesh = buildWarpMesh(settings.mappingPoints, width, height);
+  }
+  return cachedMesh;
+};
+
+// Iterates the two triangles of every grid cell as vertex indices
+const forEachTriangle = (mesh: WarpMesh, fn: (i0: number, i1: number, i2: number) => boolean | void) => {
+  const stride = mesh.cols + 1;
+  for (let r = 0; r < mesh.rows; r++) {
+    for (let c = 0; c < mesh.cols; c++) {
+      const tl = r * stride + c, tr = tl + 1, bl = tl + stride, br = bl + 1;
+      if (fn(tl, tr, br) === true) return;
+      if (fn(tl, br, bl) === true) return;
+    }
+  }
+};
+
+/**
+ * Output pixel -> scene pixel. Returns null when the point falls outside
+ * the projected area (there is no scene content underneath it).
+ */
+export const unwarpPoint = (mesh: WarpMesh, p: Point): Point | null => {
+  if (mesh.inverse) {
+    const n = applyHomography(mesh.inverse, p.x / mesh.width, p.y / mesh.height);
+    if (!Number.isFinite(n.x) || !Number.isFinite(n.y)) return null;
+    if (n.x < 0 || n.x > 1 || n.y < 0 || n.y > 1) return null;
+    return { ...p, x: n.x * mesh.width, y: n.y * mesh.height };
+  }
+
+  let result: Point | null = null;
+  forEachTriangle(mesh, (i0, i1, i2) => {
+    const a = mesh.dst[i0], b = mesh.dst[i1], c = mesh.dst[i2];
+    const det = (b.y - c.y) * (a.x - c.x) + (c.x - b.x) * (a.y - c.y);
+    if (Math.abs(det) < 1e-9) return;
+    const l0 = ((b.y - c.y) * (p.x - c.x) + (c.x - b.x) * (p.y - c.y)) / det;
+    const l1 = ((c.y - a.y) * (p.x - c.x) + (a.x - c.x) * (p.y - c.y)) / det;
+    const l2 = 1 - l0 - l1;
+    if (l0 < -1e-6 || l1 < -1e-6 || l2 < -1e-6) return;
+    const sa = mesh.src[i0], sb = mesh.src[i1], sc = mesh.src[i2];
+    result = { ...p, x: l0 * sa.x + l1 * sb.x + l2 * sc.x, y: l0 * sa.y + l1 * sb.y + l2 * sc.y };
+    return true;
+  });
+  return result;
+};
+
+/**
+ * Scene pixel -> output pixel, used to place overlays on the warped image.
+ */
+export const warpPoint = (mesh: WarpMesh, p: Point): Point => {
+  const w = warpNormalized(mesh.points, p.x / mesh.width, p.y / mesh.height, mesh.homography);
+  return { ...p, x: w.x * mesh.width, y: w.y * mesh.height };
+};
+
+/**
+ * Draws `source` (scene-sized) onto `ctx` through the mesh using
+ * per-triangle affine texture mapping.
+ */
+export const drawWarped = (ctx: CanvasRenderingContext2D, source: CanvasImageSource, mesh: WarpMesh) => {
+  forEachTriangle(mesh, (i0, i1, i2) => {
+    const s0 = mesh.src[i0], s1 = mesh.src[i1], s2 = mesh.src[i2];
+    const d0 = mesh.dst[i0], d1 = mesh.dst[i1], d2 = mesh.dst[i2];
+
+    // Affine transform taking the source triangle onto the destination triangle
+    const ux1 = s1.x - s0.x, uy1 = s1.y - s0.y, ux2 = s2.x - s0.x, uy2 = s2.y - s0.y;
+    const det = ux1 * uy2 - ux2 * uy1;
+    if (Math.abs(det) < 1e-9) return;
+    const vx1 = d1.x - d0.x, vy1 = d1.y - d0.y, vx2 = d2.x - d0.x, vy2 = d2.y - d0.y;
+    const a = (vx1 * uy2 - vx2 * uy1) / det;
+    const c = (vx2 * ux1 - vx1 * ux2) / det;
+    const b = (vy1 * uy2 - vy2 * uy1) / det;
+    const d = (vy2 * ux1 - vy1 * ux2) / det;
+    const e = d0.x - a * s0.x - c * s0.y;
+    const f = d0.y - b * s0.x - d * s0.y;
+
+    const cx = (d0.x + d1.x + d2.x) / 3, cy = (d0.y + d1.y + d2.y) / 3;
+    const grow = (p: Point) => {
+      const dx = p.x - cx, dy = p.y - cy;
+      const len = Math.sqrt(dx * dx + dy * dy) || 1;
+      return { x: p.x + (dx / len) * SEAM_BLEED_PX, y: p.y + (dy / len) * SEAM_BLEED_PX };
+    };
+    const g0 = grow(d0), g1 = grow(d1), g2 = grow(d2);
+
+    ctx.save();
+    ctx.beginPath();
+    ctx.moveTo(g0.x, g0.y);
+    ctx.lineTo(g1.x, g1.y);
+    ctx.lineTo(g2.x, g2.y);
+    ctx.closePath();
+    ctx.clip();
+    ctx.transform(a, b, c, d, e, f);
+
+    // Only sample the cell's bounding box (plus a pixel) to keep drawImage cheap
+    const minX = Math.max(0, Math.floor(Math.min(s0.x, s1.x, s2.x)) - 1);
+    const minY = Math.max(0, Math.floor(Math.min(s0.y, s1.y, s2.y)) - 1);
+    const maxX = Math.min(mesh.width, Math.ceil(Math.max(s0.x, s1.x, s2.x)) + 1);
+    const maxY = Math.min(mesh.height, Math.ceil(Math.max(s0.y, s1.y, s2.y)) + 1);
+    if (maxX > minX && maxY > minY) {
+      ctx.drawImage(source, minX, minY, maxX - minX, maxY - minY, minX, minY, maxX - minX, maxY - minY);
+    }
+    ctx.restore();
+  });
+};
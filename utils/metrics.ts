@@ -0,0 +1,157 @@
+
+// Performance telemetry for the HUD and for commissioning reports. Producers
+// (render loop, hand model, WebSocket links) record raw samples; the collector
+// rolls them up into one row per second. Latency percentiles cover the last
+// LATENCY_SAMPLES inferences.
+
+const WINDOW_MS = 1000; // Rate window and history resolution
+const LATENCY_SAMPLES = 300; // Rolling window for percentiles
+const MAX_HISTORY = 3600; // One hour of per-second rows
+const MAX_EVENTS = 200;
+const JANK_FACTOR = 2; // A render frame this many times slower than usual counts as dropped
+
+export type MetricsLink = 'bridge' | 'events';
+
+export interface MetricsRow {
+  time: number; // Epoch ms
+  renderFps: number;
+  analysisFps: number;
+  inferenceP50: number;
+  inferenceP95: number;
+  inferenceP99: number;
+  wsFps: number;
+  wsDecodeMs: number; // Mean over the window
+  droppedFrames: number; // Cumulative (render jank + superseded feed frames)
+  reconnects: number; // Cumulative, all links
+}
+
+export interface MetricsEvent {
+  time: number; // Epoch ms
+  message: string;
+}
+
+export const percentile = (values: number[], p: number): number => {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.min(sorted.length - 1, Math.floor(p * sorted.length))];
+};
+
+const round = (v: number, digits = 1) => Number(v.toFixed(digits));
+
+export const createMetrics = () => {
+  let windowStart = performance.now();
+  let lastFrame: number | null = null;
+  let frameIntervalEma = 1000 / 60;
+  const counts = { render: 0, analysis: 0, ws: 0, wsDecodeTotal: 0 };
+  const latencies: number[] = [];
+  const totals = { renderDropped: 0, feedDropped: 0, reconnects: { bridge: 0, events: 0 } as Record<MetricsLink, number> };
+  let history: MetricsRow[] = [];
+  let events: MetricsEvent[] = [];
+
+  const rollWindow = (now: number) => {
+    const secs = (now - windowStart) / 1000;
+    history.push({
+      time: Date.now(),
+      renderFps: round(counts.render / secs),
+      analysisFps: round(counts.analysis / secs),
+      inferenceP50: round(percentile(latencies, 0.5)),
+      inferenceP95: round(percentile(latencies, 0.95)),
+      inferenceP99: round(percentile(latencies, 0.99)),
+      wsFps: round(counts.ws / secs),
+      wsDecodeMs: counts.ws > 0 ? round(counts.wsDecodeTotal / counts.ws, 2) : 0,
+      droppedFrames: totals.renderDropped + totals.feedDropped,
+      reconnects: totals.reconnects.bridge + totals.reconnects.events
+    });
+    if (history.length > MAX_HISTORY) history = history.slice(-MAX_HISTORY);
+    windowStart = now;
+    counts.render = counts.analysis = counts.ws = counts.wsDecodeTotal = 0;
+  };
+
+  return {
+    // Once per rendered frame; also drives the per-second roll-up
+    frame: (now: number) => {
+      if (lastFrame !== null) {
+        const interval = now - lastFrame;
+        const limit = frameIntervalEma * JANK_FACTOR;
+        if (interval > limit) totals.renderDropped++;
+        // Every frame feeds the average so a lasting rate change becomes the new normal;
+        // the clamp keeps one long stall (a hidden tab) from swamping it
+        frameIntervalEma += (Math.min(interval, limit * 2) - frameIntervalEma) * 0.05;
+      }
+      lastFrame = now;
+      counts.render++;
+      if (now - windowStart >= WINDOW_MS) rollWindow(now);
+    },
+    inference: (ms: number) => {
+      counts.analysis++;
+      latencies.push(ms);
+      if (latencies.length > LATENCY_SAMPLES) latencies.shift();
+    },
+    feedFrame: (decodeMs: number) => {
+      counts.ws++;
+      counts.wsDecodeTotal += decodeMs;
+    },
+    // A feed frame replaced by a newer one before it was shown
+    feedDropped: () => { totals.feedDropped++; },
+    reconnect: (link: MetricsLink) => { totals.reconnects[link]++; },
+    event: (message: string) => {
+      events.push({ time: Date.now(), message });
+      if (events.length > MAX_EVENTS) events = events.slice(-MAX_EVENTS);
+    },
+    history: (): MetricsRow[] => history,
+    events: (): MetricsEvent[] => events,
+    latest: (): MetricsRow | null => history[history.length - 1] || null,
+    totals: () => ({ renderDropped: totals.renderDropped, feedDropped: totals.feedDropped, reconnects: { ...totals.reconnects } }),
+    // Starts a fresh commissioning run
+    reset: () => {
+      history = [];
+      events = [];
+      latencies.length = 0;
+      totals.renderDropped = totals.feedDropped = 0;
+      totals.reconnects = { bridge: 0, events: 0 };
+      windowStart = performance.now();
+      counts.render = counts.analysis = counts.ws = counts.wsDecodeTotal = 0;
+    }
+  };
+};
+
+export type Metrics = ReturnType<typeof createMetrics>;
+
+// App-wide collector
+export const metrics = createMetrics();
+
+const CSV_COLUMNS: (keyof MetricsRow)[] = [
+  'time', 'renderFps', 'analysisFps', 'inferenceP50', 'inferenceP95', 'inferenceP99',
+  'wsFps', 'wsDecodeMs', 'droppedFrames', 'reconnects'
+];
+
+export const metricsToCsv = (m: Metrics): string => [
+  CSV_COLUMNS.join(','),
+  ...m.history().map(row => CSV_COLUMNS.map(k => k === 'time' ? new Date(row.time).toISOString() : row[k]).join(','))
+].join('\n');
+
+export const metricsToJson = (m: Metrics) => {
+  const rows = m.history();
+  const column = (k: keyof MetricsRow) => rows.map(r => r[k]);
+  const summary = (k: keyof MetricsRow) => ({
+    min: rows.length ? Math.min(...column(k)) : 0,
+    p50: percentile(column(k), 0.5),
+    p95: percentile(column(k), 0.95),
+    max: rows.length ? Math.max(...column(k)) : 0
+  });
+  return {
+    generatedAt: new Date().toISOString(),
+    userAgent: navigator.userAgent,
+    durationSec: rows.length,
+    summary: {
+      renderFps: summary('renderFps'),
+      analysisFps: summary('analysisFps'),
+      inferenceP95: summary('inferenceP95'),
+      wsFps: summary('wsFps'),
+      wsDecodeMs: summary('wsDecodeMs')
+    },
+    totals: m.totals(),
+    events: m.events().map(e => ({ time: new Date(e.time).toISOString(), message: e.message })),
+    rows
+  };
+};
@@ -0,0 +1,44 @@
+
+import { ZoneMidiMapping } from '../types';
+
+export const DEFAULT_MIDI_MAPPING: ZoneMidiMapping = {
+  mode: 'note',
+  channel: 1,
+  number: 60,
+  velocity: 100,
+  progressCc: null
+};
+
+let accessPromise: Promise<MIDIAccess | null> | null = null;
+
+// Shared MIDIAccess; resolves null where Web MIDI is unavailable or denied
+export const getMidiAccess = (): Promise<MIDIAccess | null> => {
+  if (!accessPromise) {
+    if (typeof navigator.requestMIDIAccess !== 'function') {
+      accessPromise = Promise.resolve(null);
+    } else {
+      accessPromise = navigator.requestMIDIAccess({ sysex: false }).catch((e) => {
+        console.warn("[MIDI] Access denied:", e);
+        accessPromise = null; // Allow a later retry (e.g. after a permission prompt)
+        return null;
+      });
+    }
+  }
+  return accessPromise;
+};
+
+const clamp7 = (v: number) => Math.max(0, Math.min(127, Math.round(v)));
+const status = (kind: number, channel: number) => kind | (Math.max(1, Math.min(16, channel)) - 1);
+
+export const midiOnMessage = (m: ZoneMidiMapping): number[] =>
+  m.mode === 'note'
+    ? [status(0x90, m.channel), clamp7(m.number), Math.max(1, clamp7(m.velocity))]
+    : [status(0xB0, m.channel), clamp7(m.number), clamp7(m.velocity)];
+
+export const midiOffMessage = (m: ZoneMidiMapping): number[] =>
+  m.mode === 'note'
+    ? [status(0x80, m.channel), clamp7(m.number), 0]
+    : [status(0xB0, m.channel), clamp7(m.number), 0];
+
+export const midiProgressMessage = (m: ZoneMidiMapping, progress: number): number[] | null =>
+  m.progressCc === null ? null : [status(0xB0, m.channel), clamp7(m.progressCc), clamp7(progress * 127)];
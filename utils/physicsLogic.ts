@@ -1,62 +1,272 @@
 
-import { AppSettings, CircleConfig, CircleRuntime, Point } from '../types';
-import { calculateAngle, angleDiff } from '../utils';
+import { AppSettings, CircleConfig, CircleRuntime, Point, TrackedHand, ZoneTuning } from '../types';
+import { calculateAngle, angleDiff, cameraToCanvas, resolveZoneTuning } from '../utils';
+import { getWarpMesh, unwarpPoint, WarpMesh } from './meshWarp';
+import { ZoneEvent, ZoneEventType } from './zoneEvents';
+import { zoneCentroid, zoneContains, zoneExtent } from './zoneShape';
+import { getZoneIndex } from './zoneIndex';
+import { DEPTH_MAP_MAX_AGE_MS, DepthMap, mapDepthToScene, measureZoneDepth, ZoneDepthHit } from './depthMap';
+import { isTouching } from './touchPlane';
 
-const ROTATE_TARGET_DEG = 90;
-const STILL_EPS_DEG = 2;
-const LEAVE_MARGIN_RATIO = 0.18;
 const MIN_LEAVE_MARGIN_PX = 8;
-const LEAVE_GRACE_FRAMES = 10;
-const SPIN_GRACE_MS = 2000;
-const ROT_SPEED_DEG_PER_SEC = 45;
+const SWIPE_MAX_MS = 800; // Enter-to-exit time for a swipe to count
+const SWIPE_MIN_EXIT_DEG = 120; // Exit must be roughly opposite the entry
+const SWIPE_HOLD_MS = 1000; // How long a swipe keeps the zone filled
+const PROGRESS_EVENT_STEP = 0.05; // zone_progress fires each time progress crosses a 5% step
+const DEPTH_BLOB_ID = -1; // Owner id for whatever the depth map sees in a zone (tracked hands count from 1)
 
+export const createCircleRuntime = (): CircleRuntime => ({
+  isFilled: false, wasFilled: false, lastInsideTime: 0, lastAngle: null,
+  cwAccum: 0, rotAngle: 0, lastCWTime: 0, isHandInside: false, ownerId: null,
+  progress: 0, gestureStart: 0, depthBaseline: null, entryPoint: null, lastTip: null, firedAt: -Infinity,
+  reportedProgress: 0,
+  imgEl: null, videoEl: null, videoKey: '', gifAnim: null, gifCanvas: null
+});
+
+// Entering a zone: start timers/baselines for the zone's gesture
+const beginGesture = (rt: CircleRuntime, tip: Point, now: number) => {
+  rt.gestureStart = now;
+  rt.depthBaseline = null;
+  rt.entryPoint = { x: tip.x, y: tip.y };
+  rt.lastTip = null;
+};
+
+// Hand is inside (or within grace): advance the gesture and decide isFilled
+const trackGesture = (c: CircleConfig, t: ZoneTuning, rt: CircleRuntime, tip: Point, depthMm: number, now: number) => {
+  const trigger = c.trigger || 'spin_cw';
+
+  switch (trigger) {
+    case 'spin_cw':
+    case 'spin_ccw': {
+      const dir = trigger === 'spin_ccw' ? -1 : 1;
+      const centre = zoneCentroid(c);
+      const ang = calculateAngle(centre.x, centre.y, tip.x, tip.y);
+      // The reference angle only moves once the tip has travelled past the jitter
+      // filter, so slow spins sampled at high frame rates still accumulate.
+      if (rt.lastAngle === null) {
+        rt.lastAngle = ang;
+      } else {
+        const diff = angleDiff(rt.lastAngle, ang) * dir;
+        if (Math.abs(diff) >= t.stillEpsDeg) {
+          if (diff > 0) {
+             rt.cwAccum += Math.abs(diff);
+             rt.lastCWTime = now;
+          } else {
+             rt.cwAccum = Math.max(0, rt.cwAccum - Math.abs(diff) * 0.5);
+          }
+          rt.lastAngle = ang;
+        }
+      }
+      const cwFresh = (now - rt.lastCWTime) <= t.spinGraceMs;
+      rt.progress = Math.min(rt.cwAccum / t.rotateTargetDeg, 1);
+      rt.isFilled = rt.cwAccum >= t.rotateTargetDeg && cwFresh;
+      break;
+    }
+    case 'dwell': {
+      const held = now - rt.gestureStart;
+      const target = t.dwellMs;
+      rt.progress = Math.min(held / target, 1);
+      rt.isFilled = held >= target;
+      break;
+    }
+    case 'push': {
+      // Latches once the tip has moved pushMm closer than the farthest point seen inside
+      if (depthMm > 0) {
+        rt.depthBaseline = rt.depthBaseline === null ? depthMm : Math.max(rt.depthBaseline, depthMm);
+        const travel = rt.depthBaseline - depthMm;
+        const target = t.pushMm;
+        rt.progress = Math.min(Math.max(travel / target, 0), 1);
+        rt.isFilled = rt.isFilled || travel >= target;
+      }
+      break;
+    }
+    case 'swipe': {
+      // Progress = how far the tip has crossed along the entry -> centre direction
+      const e = rt.entryPoint || tip;
+      const centre = zoneCentroid(c);
+      const vx = centre.x - e.x, vy = centre.y - e.y;
+      const len = Math.sqrt(vx * vx + vy * vy) || 1;
+      const along = ((tip.x - e.x) * vx + (tip.y - e.y) * vy) / len;
+      rt.progress = Math.min(Math.max(along / (zoneExtent(c) * 2), 0), 1);
+      rt.isFilled = (now - rt.firedAt) <= SWIPE_HOLD_MS;
+      break;
+    }
+  }
+  rt.lastTip = { x: tip.x, y: tip.y };
+};
+
+// Hand left the zone: a swipe fires here if it exited opposite its entry in time
+const endGesture = (c: CircleConfig, rt: CircleRuntime, now: number) => {
+  if ((c.trigger || 'spin_cw') === 'swipe' && rt.entryPoint && rt.lastTip && (now - rt.gestureStart) <= SWIPE_MAX_MS) {
+    const centre = zoneCentroid(c);
+    const inAng = calculateAngle(centre.x, centre.y, rt.entryPoint.x, rt.entryPoint.y);
+    const outAng = calculateAngle(centre.x, centre.y, rt.lastTip.x, rt.lastTip.y);
+    if (Math.abs(angleDiff(inAng, outAng)) >= SWIPE_MIN_EXIT_DEG) rt.firedAt = now;
+  }
+  rt.isHandInside = false;
+  rt.cwAccum = 0;
+  rt.progress = 0;
+  rt.lastAngle = null;
+  rt.lastInsideTime = 0;
+  rt.ownerId = null;
+  rt.depthBaseline = null;
+  rt.entryPoint = null;
+  rt.lastTip = null;
+  rt.isFilled = (c.trigger || 'spin_cw') === 'swipe' && (now - rt.firedAt) <= SWIPE_HOLD_MS;
+};
+
+// Nothing in progress: stepping this zone without a hand over it is a no-op
+const isIdle = (rt: CircleRuntime) =>
+  !rt.isHandInside && !rt.isFilled && !rt.wasFilled && rt.cwAccum === 0 && rt.progress === 0 && rt.reportedProgress === 0;
+
+// Depth samples go through the same view transform and unwarp as fingertips.
+// Their scene positions are kept until the map size or the view changes, and
+// the hits until the next map (the render loop steps several times per map).
+let depthScene: { key: string; mesh: WarpMesh | null; calibration: AppSettings['cameraCalibration']; scene: Float32Array } | null = null;
+let depthHits: { map: DepthMap; circles: CircleConfig[]; scene: Float32Array; minPixels: number; hits: Map<string, ZoneDepthHit> } | null = null;
+
+const getZoneDepthHits = (
+  map: DepthMap,
+  circles: CircleConfig[],
+  settings: AppSettings,
+  mesh: WarpMesh | null,
+  width: number,
+  height: number
+): Map<string, ZoneDepthHit> => {
+  const key = `${map.width}x${map.height}|${width}x${height}|${settings.mirrorView}|${settings.rotationDeg}`;
+  if (!depthScene || depthScene.key !== key || depthScene.mesh !== mesh || depthScene.calibration !== settings.cameraCalibration) {
+    const scene = mapDepthToScene(map.width, map.height, (u, v) => {
+      const p = cameraToCanvas(u, v, settings, width, height);
+      if (p.x < 0 || p.x > width || p.y < 0 || p.y > height) return null;
+      return mesh ? unwarpPoint(mesh, p) : p;
+    });
+    depthScene = { key, mesh, calibration: settings.cameraCalibration, scene };
+  }
+  const { scene } = depthScene;
+  const minPixels = settings.depthMinPixels;
+  if (!depthHits || depthHits.map !== map || depthHits.circles !== circles || depthHits.scene !== scene || depthHits.minPixels !== minPixels) {
+    depthHits = { map, circles, scene, minPixels, hits: measureZoneDepth(map, scene, circles, minPixels) };
+  }
+  return depthHits.hits;
+};
+
+// Picks the hand that drives a circle this frame. An owned circle sticks to
+// its owner; if the owner vanished, another hand must actually be inside to
+// take over, otherwise null lets the spin grace window run out.
+const pickHand = (c: CircleConfig, rt: CircleRuntime, hands: TrackedHand[]): TrackedHand | null => {
+  if (hands.length === 0) return null;
+
+  const centre = zoneCentroid(c);
+  const distTo = (h: TrackedHand) => Math.sqrt((h.tip.x - centre.x) ** 2 + (h.tip.y - centre.y) ** 2);
+  let nearest: TrackedHand | null = null;
+  for (const h of hands) {
+    if (!nearest || distTo(h) < distTo(nearest)) nearest = h;
+  }
+
+  if (rt.ownerId !== null) {
+    const owner = hands.find(h => h.id === rt.ownerId);
+    if (owner) return owner;
+    return hands.find(h => zoneContains(c, h.tip)) || null;
+  }
+  // Prefer a hand that is actually inside (matters for rings and concave shapes)
+  return hands.find(h => zoneContains(c, h.tip)) || nearest;
+};
+
+/**
+ * Advances every zone by one step. All timing comes from `now` (ms) and `dt` (s),
+ * so feeding the same timestamped tip trajectory always gives the same result,
+ * regardless of display refresh rate.
+ */
 export const updateCirclePhysics = (
   circles: CircleConfig[],
   runtimeMap: Map<string, CircleRuntime>,
-  tip: Point | null,
+  rawHands: TrackedHand[],
   settings: AppSettings,
   globalDepthMm: number | null,
+  depthMap: DepthMap | null, // Professional mode: drives zones that have a depth window
   now: number,
+  dt: number, // Seconds since the previous step
   canvasWidth: number,
-  canvasHeight: number
+  canvasHeight: number,
+  onEvent?: (e: ZoneEvent) => void
 ) => {
   if (settings.isMappingEdit) return;
 
   const isProfessional = settings.cameraType === 'professional';
-  const depthThreshold = settings.depthTriggerMm;
 
-  let effectiveDepth = 0;
-  if (isProfessional) {
-      if (tip && tip.depth !== undefined && tip.depth > 0) effectiveDepth = tip.depth;
-      else if (globalDepthMm) effectiveDepth = globalDepthMm;
-  }
+  // Zones are drawn through the projection mesh, so fingertips (seen in
+  // output space) are mapped back into scene space before hit-testing.
+  const mesh = getWarpMesh(settings, canvasWidth, canvasHeight);
 
   // STRICT VIEWPORT CHECK: 只有在可视画布范围内的点才参与计算
-  const isTipValid = tip && 
-                    tip.x >= 0 && tip.x <= canvasWidth && 
-                    tip.y >= 0 && tip.y <= canvasHeight;
+  const hands: TrackedHand[] = [];
+  const outputTips = new Map<number, Point>(); // Camera-space tips, for the touch plane
+  for (const h of rawHands) {
+    const tip = mesh ? unwarpPoint(mesh, h.tip) : h.tip;
+    if (tip && tip.x >= 0 && tip.x <= canvasWidth && tip.y >= 0 && tip.y <= canvasHeight) {
+      hands.push({ ...h, tip });
+      outputTips.set(h.id, h.tip);
+    }
+  }
+
+  let zoneHits: Map<string, ZoneDepthHit> | null = null;
+  if (isProfessional && settings.depthMapEnabled && depthMap && now - depthMap.time <= DEPTH_MAP_MAX_AGE_MS &&
+      circles.some(c => c.depthWindow)) {
+    zoneHits = getZoneDepthHits(depthMap, circles, settings, mesh, canvasWidth, canvasHeight);
+  }
+
+  // Only zones under a fingertip or occupied in depth, or still settling, need a full step
+  const index = getZoneIndex(circles);
+  const nearby = new Set<CircleConfig>();
+  for (const h of hands) {
+    for (const c of index.query(h.tip)) nearby.add(c);
+  }
+  if (zoneHits) circles.forEach(c => { if (zoneHits!.has(c.id)) nearby.add(c); });
 
   circles.forEach(c => {
     const rt = runtimeMap.get(c.id);
     if (!rt) return;
+    if (!nearby.has(c) && isIdle(rt)) return;
+
+    const t = resolveZoneTuning(c, settings);
+    const trigger = c.trigger || 'spin_cw';
+    const isSpin = trigger === 'spin_cw' || trigger === 'spin_ccw';
+    const depthWindow = isProfessional ? c.depthWindow : undefined;
+    const blob = depthWindow ? zoneHits?.get(c.id) : undefined;
+    let hand = pickHand(c, rt, hands);
+    // A fingertip inside the zone drives the gesture; otherwise whatever the depth map sees in its volume
+    if (blob && (!hand || !zoneContains(c, hand.tip))) hand = { id: DEPTH_BLOB_ID, landmarks: [], tip: blob.tip };
+    const emit = (type: ZoneEventType) => {
+      if (onEvent) onEvent({ type, circleId: c.id, circleName: c.name, progress: rt.progress, time: now });
+    };
 
-    if (isTipValid && tip) {
-      const dx = tip.x - c.x;
-      const dy = tip.y - c.y;
-      const dist = Math.sqrt(dx*dx + dy*dy);
-      const margin = Math.max(MIN_LEAVE_MARGIN_PX, c.radius * LEAVE_MARGIN_RATIO);
+    if (hand) {
+      const tip = hand.tip;
+      let effectiveDepth = 0;
+      if (isProfessional) {
+          if (tip.depth !== undefined && tip.depth > 0) effectiveDepth = tip.depth;
+          else if (globalDepthMm) effectiveDepth = globalDepthMm;
+      }
+
+      const margin = Math.max(MIN_LEAVE_MARGIN_PX, zoneExtent(c) * t.leaveMarginRatio);
       
-      let visualInside = dist <= (rt.isHandInside ? c.radius + margin : c.radius);
+      let visualInside = zoneContains(c, tip, rt.isHandInside ? margin : 0);
       let isActivated = false;
 
-      if (isProfessional) {
-          isActivated = visualInside && (effectiveDepth > 0 ? effectiveDepth < depthThreshold : true);
+      if (depthWindow) {
+          // Something must physically occupy the volume: seen in the depth map, or a tip reading inside the band
+          const inBand = effectiveDepth >= depthWindow.nearMm && effectiveDepth <= depthWindow.farMm;
+          isActivated = visualInside && (blob !== undefined || inBand);
+      } else if (isProfessional) {
+          // Push measures relative depth itself, so it skips the absolute Z gate
+          const depthOk = trigger === 'push' || effectiveDepth <= 0 ||
+              isTouching(settings, outputTips.get(hand.id) || tip, effectiveDepth, canvasWidth, canvasHeight);
+          isActivated = visualInside && depthOk;
       } else {
           if (visualInside) {
-              rt.graceLeft = LEAVE_GRACE_FRAMES;
+              rt.lastInsideTime = now;
               isActivated = true;
-          } else if (rt.isHandInside && rt.graceLeft > 0) {
-              rt.graceLeft--;
+          } else if (rt.isHandInside && (now - rt.lastInsideTime) <= t.leaveGraceMs) {
               isActivated = true;
           }
       }
@@ -64,53 +274,68 @@ export const updateCirclePhysics = (
       if (!rt.isHandInside && isActivated) {
          rt.isHandInside = true;
          rt.lastAngle = null;
+         beginGesture(rt, tip, now);
+         emit('zone_enter');
       }
 
       if (isActivated) {
-        const ang = calculateAngle(c.x, c.y, tip.x, tip.y);
-        if (rt.lastAngle !== null) {
-          const diff = angleDiff(rt.lastAngle, ang);
-          if (Math.abs(diff) >= STILL_EPS_DEG) {
-            if (diff > 0) {
-               rt.cwAccum += Math.abs(diff);
-               rt.lastCWTime = now;
-            } else {
-               rt.cwAccum = Math.max(0, rt.cwAccum - Math.abs(diff) * 0.5);
-            }
-          }
+        if (rt.ownerId !== null && rt.ownerId !== hand.id) {
+          // Takeover: don't diff against another hand's angle or baseline
+          rt.lastAngle = null;
+          beginGesture(rt, tip, now);
         }
-        rt.lastAngle = ang;
-        const cwFresh = (now - rt.lastCWTime) <= SPIN_GRACE_MS;
-        rt.isFilled = rt.cwAccum >= ROTATE_TARGET_DEG && cwFresh;
+        rt.ownerId = hand.id;
+        trackGesture(c, t, rt, tip, effectiveDepth, now);
+      } else if (rt.isHandInside) {
+        endGesture(c, rt, now);
       } else {
-        rt.isHandInside = false;
-        rt.isFilled = false;
+        rt.isFilled = trigger === 'swipe' && (now - rt.firedAt) <= SWIPE_HOLD_MS;
         rt.cwAccum = 0;
-        rt.lastAngle = null;
-        rt.graceLeft = 0;
+        rt.progress = 0;
       }
-    } else {
+    } else if (isSpin) {
       // 这里的逻辑处理“手出界”的情况
-      const cwFresh = (now - rt.lastCWTime) <= SPIN_GRACE_MS;
-      rt.isFilled = rt.cwAccum >= ROTATE_TARGET_DEG && cwFresh;
+      const cwFresh = (now - rt.lastCWTime) <= t.spinGraceMs;
+      rt.isFilled = rt.cwAccum >= t.rotateTargetDeg && cwFresh;
       if (!cwFresh) {
         rt.isHandInside = false;
         rt.lastAngle = null;
         rt.cwAccum = 0;
+        rt.progress = 0;
+        rt.ownerId = null;
         if (rt.gifAnim) try { rt.gifAnim.pause(); } catch(e){}
       }
+    } else {
+      // Hover/push/swipe gestures have no grace window: losing the hand ends them
+      if (rt.isHandInside) endGesture(c, rt, now);
+      else rt.isFilled = trigger === 'swipe' && (now - rt.firedAt) <= SWIPE_HOLD_MS;
     }
 
+    // Progress is quantized so listeners get a steady, bounded event rate
+    const progressStep = Math.floor(rt.progress / PROGRESS_EVENT_STEP) * PROGRESS_EVENT_STEP;
+    if (!rt.isFilled && progressStep !== rt.reportedProgress) {
+      rt.reportedProgress = progressStep;
+      emit('zone_progress');
+    }
+    if (!rt.wasFilled && rt.isFilled) emit('zone_filled');
+    else if (rt.wasFilled && !rt.isFilled) emit('zone_released');
+
     // 媒体状态同步
+    // (audio follows the zone_filled / zone_released events)
     if (!rt.wasFilled && rt.isFilled) {
-      if(rt.audioEl) { rt.audioEl.currentTime = rt._resumeTime || 0; rt.audioEl.play().catch(()=>{}); }
       if(rt.gifAnim) try { rt.gifAnim.play(); } catch(e){}
+      if(rt.videoEl) {
+        const mode = c.videoMode || 'loop';
+        if (mode === 'restart' || (mode === 'once' && rt.videoEl.ended)) rt.videoEl.currentTime = 0;
+        rt.videoEl.play().catch(()=>{});
+      }
     } else if (rt.wasFilled && !rt.isFilled) {
-      if(rt.audioEl) { rt.audioEl.pause(); rt._resumeTime = rt.audioEl.currentTime; }
       if(rt.gifAnim) try { rt.gifAnim.pause(); } catch(e){}
+      // A one-shot runs on to `ended`; with its soundtrack routed, the audio engine pauses the clip after the fade-out
+      if(rt.videoEl && !c.videoAudio && c.videoMode !== 'once') rt.videoEl.pause();
     }
 
-    if (rt.isFilled) rt.rotAngle = (rt.rotAngle + (ROT_SPEED_DEG_PER_SEC * Math.PI / 180) * 0.016) % (Math.PI * 2);
+    if (rt.isFilled) rt.rotAngle = (rt.rotAngle + (t.rotSpeedDegPerSec * Math.PI / 180) * dt) % (Math.PI * 2);
     rt.wasFilled = rt.isFilled;
   });
 };
@@ -0,0 +1,50 @@
+
+// Named scene presets in IndexedDB. Each record holds a full layout bundle
+// (circles, settings, background and media), see layoutBundle.ts.
+
+const DB_NAME = 'neu-lp';
+const DB_VERSION = 1;
+const STORE = 'scenes';
+
+export interface SceneRecord {
+  name: string;
+  savedAt: number;
+  layout: unknown; // Layout bundle JSON
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const req = indexedDB.open(DB_NAME, DB_VERSION);
+      req.onupgradeneeded = () => req.result.createObjectStore(STORE, { keyPath: 'name' });
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => {
+        dbPromise = null; // Allow a retry (e.g. private mode switched off)
+        reject(req.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const request = <T>(mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> =>
+  openDb().then(db => new Promise<T>((resolve, reject) => {
+    const tx = db.transaction(STORE, mode);
+    const req = fn(tx.objectStore(STORE));
+    tx.oncomplete = () => resolve(req.result);
+    tx.onerror = () => reject(tx.error || req.error);
+  }));
+
+export const listScenes = (): Promise<string[]> =>
+  request('readonly', s => s.getAllKeys()).then(keys => keys.map(String).sort((a, b) => a.localeCompare(b)));
+
+export const getScene = (name: string): Promise<SceneRecord | undefined> =>
+  request<SceneRecord | undefined>('readonly', s => s.get(name));
+
+export const putScene = (record: SceneRecord): Promise<void> =>
+  request('readwrite', s => s.put(record)).then(() => undefined);
+
+export const deleteScene = (name: string): Promise<void> =>
+  request('readwrite', s => s.delete(name)).then(() => undefined);
@@ -0,0 +1,55 @@
+
+// Health of the things a show depends on (camera, bridge, hand model). Each
+// source reports its current state; drawScene renders the board on the
+// canvas and every change is logged, even when the overlay is hidden.
+
+export type StatusSource = 'camera' | 'bridge' | 'model';
+export type StatusSeverity = 'info' | 'warning' | 'error';
+
+export interface StatusReport {
+  severity: StatusSeverity;
+  message: string; // Short, audience-safe
+  detail?: string; // Operator-only (device names, URLs, error codes)
+}
+
+export interface StatusEntry extends StatusReport {
+  source: StatusSource;
+  since: number; // performance.now() when this state began
+}
+
+const SEVERITY_RANK: Record<StatusSeverity, number> = { error: 0, warning: 1, info: 2 };
+
+const LOG: Record<StatusSeverity, (...args: unknown[]) => void> = {
+  info: (...args) => console.info(...args),
+  warning: (...args) => console.warn(...args),
+  error: (...args) => console.error(...args)
+};
+
+export const createStatusBoard = () => {
+  const entries = new Map<StatusSource, StatusEntry>();
+  let sorted: StatusEntry[] = [];
+
+  return {
+    // Pass null once the source is healthy again. Repeating the current state is a no-op.
+    report: (source: StatusSource, status: StatusReport | null) => {
+      const prev = entries.get(source);
+      if (!status) {
+        if (!prev) return;
+        entries.delete(source);
+        console.info(`[Status] ${source}: OK`);
+      } else {
+        if (prev && prev.severity === status.severity && prev.message === status.message && prev.detail === status.detail) return;
+        const since = prev && prev.severity === status.severity && prev.message === status.message ? prev.since : performance.now();
+        entries.set(source, { ...status, source, since });
+        LOG[status.severity](`[Status] ${source}: ${status.message}${status.detail ? ` (${status.detail})` : ''}`);
+      }
+      sorted = Array.from(entries.values()).sort((a, b) => SEVERITY_RANK[a.severity] - SEVERITY_RANK[b.severity]);
+    },
+    // Most severe first
+    list: (): StatusEntry[] => sorted
+  };
+};
+
+export type StatusBoard = ReturnType<typeof createStatusBoard>;
+
+export const statusBoard = createStatusBoard();
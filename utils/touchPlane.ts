@@ -0,0 +1,100 @@
+
+import { AppSettings, Point, TouchPlane } from '../types';
+import { canvasToCamera } from '../utils';
+import { DepthMap } from './depthMap';
+
+// A depth reading at a normalized camera position (0-1 over the visible viewport)
+export interface TouchSample {
+  u: number;
+  v: number;
+  depthMm: number;
+}
+
+export const MIN_PLANE_SAMPLES = 3;
+const OUTLIER_RMS_FACTOR = 2.5; // The refit drops samples this many RMS off the first fit
+const OUTLIER_MIN_MM = 2; // ...but never ones closer than this (an exact fit has zero RMS)
+
+// Wall depth the plane predicts at (u, v); Infinity where the plane is behind the camera
+export const planeDepthAt = (p: TouchPlane, u: number, v: number): number => {
+  const inv = p.a * u + p.b * v + p.c;
+  return inv > 0 ? 1 / inv : Infinity;
+};
+
+// How far in front of the wall a reading is, along the camera ray (negative = behind it)
+export const planeGapMm = (p: TouchPlane, s: TouchSample): number => planeDepthAt(p, s.u, s.v) - s.depthMm;
+
+// Least squares for [a b c] on 1/depth; null when the samples are collinear or too few
+const solvePlane = (samples: TouchSample[]): { a: number; b: number; c: number } | null => {
+  if (samples.length < MIN_PLANE_SAMPLES) return null;
+  let suu = 0, suv = 0, su = 0, svv = 0, sv = 0, n = 0, sut = 0, svt = 0, st = 0;
+  for (const { u, v, depthMm } of samples) {
+    const t = 1 / depthMm;
+    suu += u * u; suv += u * v; su += u;
+    svv += v * v; sv += v; n++;
+    sut += u * t; svt += v * t; st += t;
+  }
+  // Cramer's rule on the 3x3 normal equations
+  const det3 = (m: number[]) =>
+    m[0] * (m[4] * m[8] - m[5] * m[7]) - m[1] * (m[3] * m[8] - m[5] * m[6]) + m[2] * (m[3] * m[7] - m[4] * m[6]);
+  const A = [suu, suv, su, suv, svv, sv, su, sv, n];
+  const d = det3(A);
+  if (Math.abs(d) < 1e-12) return null;
+  return {
+    a: det3([sut, suv, su, svt, svv, sv, st, sv, n]) / d,
+    b: det3([suu, sut, su, suv, svt, sv, su, st, n]) / d,
+    c: det3([suu, suv, sut, suv, svv, svt, su, sv, st]) / d
+  };
+};
+
+const rms = (p: TouchPlane, samples: TouchSample[]) =>
+  Math.sqrt(samples.reduce((sum, s) => sum + planeGapMm(p, s) ** 2, 0) / samples.length);
+
+/**
+ * Fits the wall to depth samples, then refits without outliers (a stray hand,
+ * a cable, sensor edge noise). Returns null if no plane can be fitted.
+ */
+export const fitTouchPlane = (samples: TouchSample[]): TouchPlane | null => {
+  const valid = samples.filter(s => s.depthMm > 0);
+  const first = solvePlane(valid);
+  if (!first) return null;
+  let plane: TouchPlane = { ...first, rmsMm: 0, samples: valid.length };
+  plane.rmsMm = rms(plane, valid);
+
+  const limit = Math.max(plane.rmsMm * OUTLIER_RMS_FACTOR, OUTLIER_MIN_MM);
+  const inliers = valid.filter(s => Math.abs(planeGapMm(plane, s)) <= limit);
+  const second = inliers.length < valid.length ? solvePlane(inliers) : null;
+  if (second) {
+    plane = { ...second, rmsMm: 0, samples: inliers.length };
+    plane.rmsMm = rms(plane, inliers);
+  }
+  return plane;
+};
+
+// Readings of an empty-scene depth map on a regular grid of about `maxSamples` points
+export const samplesFromDepthMap = (map: DepthMap, maxSamples = 2000): TouchSample[] => {
+  const step = Math.max(1, Math.round(Math.sqrt(map.width * map.height / maxSamples)));
+  const samples: TouchSample[] = [];
+  for (let y = 0; y < map.height; y += step) {
+    for (let x = 0; x < map.width; x += step) {
+      const d = map.depth[y * map.width + x];
+      if (d > 0) samples.push({ u: (x + 0.5) / map.width, v: (y + 0.5) / map.height, depthMm: d });
+    }
+  }
+  return samples;
+};
+
+/**
+ * Distance of a fingertip (output-space canvas px) from the calibrated wall,
+ * or null without a plane or a depth reading.
+ */
+export const touchGapMm = (settings: AppSettings, tip: Point, depthMm: number, width: number, height: number): number | null => {
+  if (!settings.touchPlane || depthMm <= 0) return null;
+  const c = canvasToCamera(tip, settings, width, height);
+  return planeGapMm(settings.touchPlane, { u: c.x, v: c.y, depthMm });
+};
+
+// The professional-mode depth gate: near the wall if calibrated, else closer than depthTriggerMm
+export const isTouching = (settings: AppSettings, tip: Point, depthMm: number, width: number, height: number): boolean => {
+  const gap = touchGapMm(settings, tip, depthMm, width, height);
+  return gap !== null ? gap <= settings.touchDistanceMm : depthMm < settings.depthTriggerMm;
+};
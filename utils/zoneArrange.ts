@@ -0,0 +1,125 @@
+
+import { CircleConfig, Point } from '../types';
+import { zoneBounds } from './zoneShape';
+
+// Group editing for multi-selected zones: moving, aligning, distributing and
+// snapping. Everything works on scene-space bounds, so shapes of any kind line up.
+
+export type AlignEdge = 'left' | 'center' | 'right' | 'top' | 'middle' | 'bottom';
+
+export interface SnapGuide {
+  axis: 'x' | 'y'; // 'x' = vertical line at x = pos
+  pos: number;
+}
+
+// Transient editing feedback drawn by drawScene on top of the zones
+export interface EditOverlay {
+  guides: SnapGuide[];
+  marquee: { from: Point; to: Point } | null; // Scene space
+  dragging: boolean;
+}
+
+type Bounds = ReturnType<typeof zoneBounds>;
+
+const SNAP_THRESHOLD_PX = 8;
+
+export const groupBounds = (zones: CircleConfig[]): Bounds => zones.map(zoneBounds).reduce((a, b) => ({
+  minX: Math.min(a.minX, b.minX), minY: Math.min(a.minY, b.minY),
+  maxX: Math.max(a.maxX, b.maxX), maxY: Math.max(a.maxY, b.maxY)
+}));
+
+// Left/centre/right (or top/middle/bottom) lines of a box
+const lines = (b: Bounds, axis: 'x' | 'y') => axis === 'x'
+  ? [b.minX, (b.minX + b.maxX) / 2, b.maxX]
+  : [b.minY, (b.minY + b.maxY) / 2, b.maxY];
+
+export const moveZones = (circles: CircleConfig[], ids: string[], dx: number, dy: number): CircleConfig[] =>
+  circles.map(c => ids.includes(c.id) ? { ...c, x: c.x + dx, y: c.y + dy } : c);
+
+// Lines every selected zone up with the matching edge of the selection's bounds
+export const alignZones = (circles: CircleConfig[], ids: string[], edge: AlignEdge): CircleConfig[] => {
+  const selected = circles.filter(c => ids.includes(c.id));
+  if (selected.length < 2) return circles;
+  const axis = edge === 'left' || edge === 'center' || edge === 'right' ? 'x' : 'y';
+  const line = ['left', 'top'].includes(edge) ? 0 : ['center', 'middle'].includes(edge) ? 1 : 2;
+  const target = lines(groupBounds(selected), axis)[line];
+  return circles.map(c => {
+    if (!ids.includes(c.id)) return c;
+    const shift = target - lines(zoneBounds(c), axis)[line];
+    return axis === 'x' ? { ...c, x: c.x + shift } : { ...c, y: c.y + shift };
+  });
+};
+
+// Equal gaps between neighbours; the outermost zones stay where they are
+export const distributeZones = (circles: CircleConfig[], ids: string[], axis: 'x' | 'y'): CircleConfig[] => {
+  const items = circles
+    .filter(c => ids.includes(c.id))
+    .map(c => {
+      const b = zoneBounds(c);
+      return axis === 'x' ? { id: c.id, min: b.minX, size: b.maxX - b.minX } : { id: c.id, min: b.minY, size: b.maxY - b.minY };
+    })
+    .sort((a, b) => a.min - b.min);
+  if (items.length < 3) return circles;
+
+  const first = items[0];
+  const last = items[items.length - 1];
+  const used = items.reduce((sum, it) => sum + it.size, 0);
+  const gap = (last.min + last.size - first.min - used) / (items.length - 1);
+
+  const shifts = new Map<string, number>();
+  let cursor = first.min;
+  for (const it of items) {
+    shifts.set(it.id, cursor - it.min);
+    cursor += it.size + gap;
+  }
+  return circles.map(c => {
+    const shift = shifts.get(c.id);
+    if (!shift) return c;
+    return axis === 'x' ? { ...c, x: c.x + shift } : { ...c, y: c.y + shift };
+  });
+};
+
+/**
+ * Correction for a group being dragged to `bounds`. Other zones' edges and
+ * centres win over the grid on each axis; the guides describe the zone lines
+ * that were matched.
+ */
+export const snapMove = (
+  bounds: Bounds,
+  others: CircleConfig[],
+  opts: { gridSize: number | null; toZones: boolean }
+): { dx: number; dy: number; guides: SnapGuide[] } => {
+  const guides: SnapGuide[] = [];
+  const targets = opts.toZones ? others.map(zoneBounds) : [];
+
+  const snapAxis = (axis: 'x' | 'y') => {
+    let best: number | null = null; // Smallest shift within reach
+    const own = lines(bounds, axis);
+    for (const t of targets) {
+      for (const pos of lines(t, axis)) {
+        for (const from of own) {
+          const shift = pos - from;
+          if (Math.abs(shift) <= SNAP_THRESHOLD_PX && (best === null || Math.abs(shift) < Math.abs(best))) best = shift;
+        }
+      }
+    }
+    if (best !== null) {
+      // Show every line that ends up matched, not just the winning one
+      for (const t of targets) {
+        for (const pos of lines(t, axis)) {
+          if (own.some(from => Math.abs(from + best! - pos) < 0.5) && !guides.some(g => g.axis === axis && g.pos === pos)) {
+            guides.push({ axis, pos });
+          }
+        }
+      }
+      return best;
+    }
+    if (opts.gridSize) {
+      const centre = own[1];
+      return Math.round(centre / opts.gridSize) * opts.gridSize - centre;
+    }
+    return 0;
+  };
+
+  return { dx: snapAxis('x'), dy: snapAxis('y'), guides };
+};
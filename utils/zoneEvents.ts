@@ -0,0 +1,83 @@
+
+export type ZoneEventType = 'zone_enter' | 'zone_progress' | 'zone_filled' | 'zone_released';
+
+export interface ZoneEvent {
+  type: ZoneEventType;
+  circleId: string;
+  circleName: string;
+  progress: number; // 0-1 gesture progress at the time of the event
+  time: number; // performance.now() timebase of the physics step
+}
+
+type ZoneEventListener = (e: ZoneEvent) => void;
+
+export const createZoneEventBus = () => {
+  const listeners = new Set<ZoneEventListener>();
+  return {
+    emit: (e: ZoneEvent) => {
+      listeners.forEach(fn => {
+        try { fn(e); } catch (err) { console.error("[Events] Listener failed", err); }
+      });
+    },
+    subscribe: (fn: ZoneEventListener) => {
+      listeners.add(fn);
+      return () => { listeners.delete(fn); };
+    }
+  };
+};
+
+export type ZoneEventBus = ReturnType<typeof createZoneEventBus>;
+
+// App-wide bus: physics publishes, outputs (network, MIDI, ...) subscribe
+export const zoneEventBus = createZoneEventBus();
+
+// Converts the physics timebase into wall-clock epoch ms for external software
+export const eventTimestamp = (e: ZoneEvent) => Math.round(performance.timeOrigin + e.time);
+
+export const encodeZoneEventJson = (e: ZoneEvent): string => JSON.stringify({
+  type: e.type,
+  id: e.circleId,
+  name: e.circleName,
+  progress: Number(e.progress.toFixed(3)),
+  timestamp: eventTimestamp(e)
+});
+
+// --- OSC 1.0 encoding (sent as binary WebSocket frames) ---
+
+const OSC_ADDRESS_PREFIX = '/neu/';
+
+const oscString = (str: string): Uint8Array => {
+  const bytes = new TextEncoder().encode(str);
+  // Null-terminated and padded to a multiple of 4 bytes
+  const out = new Uint8Array(Math.ceil((bytes.length + 1) / 4) * 4);
+  out.set(bytes);
+  return out;
+};
+
+type OscArg = { type: 's'; value: string } | { type: 'f'; value: number } | { type: 'd'; value: number };
+
+export const encodeOscMessage = (address: string, args: OscArg[]): Uint8Array => {
+  const parts: Uint8Array[] = [oscString(address), oscString(',' + args.map(a => a.type).join(''))];
+  for (const a of args) {
+    if (a.type === 's') {
+      parts.push(oscString(a.value));
+    } else {
+      const buf = new Uint8Array(a.type === 'f' ? 4 : 8);
+      const view = new DataView(buf.buffer);
+      if (a.type === 'f') view.setFloat32(0, a.value); else view.setFloat64(0, a.value);
+      parts.push(buf);
+    }
+  }
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+  let offset = 0;
+  for (const p of parts) { out.set(p, offset); offset += p.length; }
+  return out;
+};
+
+// e.g. /neu/zone_filled ,ssfd <id> <name> <progress> <timestamp>
+export const encodeZoneEventOsc = (e: ZoneEvent): Uint8Array => encodeOscMessage(OSC_ADDRESS_PREFIX + e.type, [
+  { type: 's', value: e.circleId },
+  { type: 's', value: e.circleName },
+  { type: 'f', value: e.progress },
+  { type: 'd', value: eventTimestamp(e) }
+]);
@@ -0,0 +1,54 @@
+
+import { CircleConfig, Point } from '../types';
+import { zoneBounds } from './zoneShape';
+
+const CELL_SIZE = 128; // Scene px; roughly two default-sized zones per cell
+
+export interface ZoneIndex {
+  // Zones whose bounds contain `p`, in list (draw) order
+  query: (p: Point) => CircleConfig[];
+}
+
+const cellKey = (cx: number, cy: number) => `${cx},${cy}`;
+
+// Uniform grid over zone bounding boxes. Each zone is listed in every cell its
+// bounds overlap, so a point lookup only has to look at a single cell.
+export const createZoneIndex = (circles: CircleConfig[]): ZoneIndex => {
+  const cells = new Map<string, number[]>();
+  const bounds = circles.map(zoneBounds);
+
+  bounds.forEach((b, i) => {
+    const x0 = Math.floor(b.minX / CELL_SIZE), x1 = Math.floor(b.maxX / CELL_SIZE);
+    const y0 = Math.floor(b.minY / CELL_SIZE), y1 = Math.floor(b.maxY / CELL_SIZE);
+    for (let cy = y0; cy <= y1; cy++) {
+      for (let cx = x0; cx <= x1; cx++) {
+        const key = cellKey(cx, cy);
+        const list = cells.get(key);
+        if (list) list.push(i); else cells.set(key, [i]);
+      }
+    }
+  });
+
+  const query = (p: Point) => {
+    const list = cells.get(cellKey(Math.floor(p.x / CELL_SIZE), Math.floor(p.y / CELL_SIZE)));
+    if (!list) return [];
+    return list
+      .filter(i => p.x >= bounds[i].minX && p.x <= bounds[i].maxX && p.y >= bounds[i].minY && p.y <= bounds[i].maxY)
+      .map(i => circles[i]);
+  };
+
+  return { query };
+};
+
+// Zone arrays are replaced (never mutated) on every edit, so the array itself
+// is a safe cache key and the index is only rebuilt when the layout changes.
+const cache = new WeakMap<CircleConfig[], ZoneIndex>();
+
+export const getZoneIndex = (circles: CircleConfig[]): ZoneIndex => {
+  let index = cache.get(circles);
+  if (!index) {
+    index = createZoneIndex(circles);
+    cache.set(circles, index);
+  }
+  return index;
+};
@@ -0,0 +1,267 @@
+
+import { CircleConfig, Point, ZoneShape } from '../types';
+
+// Geometry for zone outlines, all in scene pixels
+
+export const MIN_ZONE_SIZE = 10;
+
+const CIRCLE: ZoneShape = { kind: 'circle' };
+
+export const getZoneShape = (c: CircleConfig): ZoneShape => c.shape || CIRCLE;
+
+// Area centroid of a simple polygon; falls back to the vertex mean when degenerate
+const polygonCentroid = (pts: Point[]): Point => {
+  let area = 0, cx = 0, cy = 0;
+  for (let i = 0; i < pts.length; i++) {
+    const p = pts[i], q = pts[(i + 1) % pts.length];
+    const cross = p.x * q.y - q.x * p.y;
+    area += cross;
+    cx += (p.x + q.x) * cross;
+    cy += (p.y + q.y) * cross;
+  }
+  if (Math.abs(area) < 1e-6) {
+    const n = pts.length || 1;
+    return { x: pts.reduce((s, p) => s + p.x, 0) / n, y: pts.reduce((s, p) => s + p.y, 0) / n };
+  }
+  return { x: cx / (3 * area), y: cy / (3 * area) };
+};
+
+const pointInPolygon = (p: Point, pts: Point[]) => {
+  let inside = false;
+  for (let i = 0, j = pts.length - 1; i < pts.length; j = i++) {
+    const a = pts[i], b = pts[j];
+    if ((a.y > p.y) !== (b.y > p.y) && p.x < ((b.x - a.x) * (p.y - a.y)) / (b.y - a.y) + a.x) inside = !inside;
+  }
+  return inside;
+};
+
+// Closest point on segment ab to p
+const projectOnSegment = (p: Point, a: Point, b: Point): Point => {
+  const vx = b.x - a.x, vy = b.y - a.y;
+  const len2 = vx * vx + vy * vy;
+  const t = len2 > 0 ? Math.max(0, Math.min(1, ((p.x - a.x) * vx + (p.y - a.y) * vy) / len2)) : 0;
+  return { x: a.x + vx * t, y: a.y + vy * t };
+};
+
+// Spin gestures rotate around this point
+export const zoneCentroid = (c: CircleConfig): Point => {
+  const shape = getZoneShape(c);
+  if (shape.kind !== 'polygon') return { x: c.x, y: c.y };
+  const o = polygonCentroid(shape.points);
+  return { x: c.x + o.x, y: c.y + o.y };
+};
+
+// Radius of the circle around the centroid that encloses the whole shape
+export const zoneExtent = (c: CircleConfig): number => {
+  const shape = getZoneShape(c);
+  switch (shape.kind) {
+    case 'rect':
+      return Math.hypot(shape.width, shape.height) / 2;
+    case 'polygon': {
+      const o = polygonCentroid(shape.points);
+      return shape.points.reduce((m, p) => Math.max(m, Math.hypot(p.x - o.x, p.y - o.y)), 0);
+    }
+    default:
+      return c.radius;
+  }
+};
+
+export const zoneBounds = (c: CircleConfig): { minX: number; minY: number; maxX: number; maxY: number } => {
+  const shape = getZoneShape(c);
+  switch (shape.kind) {
+    case 'rect':
+      return { minX: c.x - shape.width / 2, minY: c.y - shape.height / 2, maxX: c.x + shape.width / 2, maxY: c.y + shape.height / 2 };
+    case 'polygon': {
+      const xs = shape.points.map(p => c.x + p.x), ys = shape.points.map(p => c.y + p.y);
+      return { minX: Math.min(...xs), minY: Math.min(...ys), maxX: Math.max(...xs), maxY: Math.max(...ys) };
+    }
+    default:
+      return { minX: c.x - c.radius, minY: c.y - c.radius, maxX: c.x + c.radius, maxY: c.y + c.radius };
+  }
+};
+
+// Inside test; `margin` grows the outline outward (exit hysteresis)
+export const zoneContains = (c: CircleConfig, p: Point, margin = 0): boolean => {
+  const shape = getZoneShape(c);
+  const dx = p.x - c.x, dy = p.y - c.y;
+  switch (shape.kind) {
+    case 'circle':
+      return Math.hypot(dx, dy) <= c.radius + margin;
+    case 'ring': {
+      const d = Math.hypot(dx, dy);
+      return d <= c.radius + margin && d >= shape.innerRadius - margin;
+    }
+    case 'rect':
+      return Math.abs(dx) <= shape.width / 2 + margin && Math.abs(dy) <= shape.height / 2 + margin;
+    case 'polygon': {
+      const local = { x: dx, y: dy };
+      if (pointInPolygon(local, shape.points)) return true;
+      if (margin <= 0) return false;
+      return shape.points.some((a, i) => {
+        const q = projectOnSegment(local, a, shape.points[(i + 1) % shape.points.length]);
+        return Math.hypot(q.x - dx, q.y - dy) <= margin;
+      });
+    }
+  }
+};
+
+// Adds the outline to the current path; `grow` offsets it outward. A ring's
+// hole is traced in the opposite direction so fill/clip work with either rule.
+export const traceZonePath = (ctx: CanvasRenderingContext2D, c: CircleConfig, grow = 0) => {
+  const shape = getZoneShape(c);
+  switch (shape.kind) {
+    case 'circle':
+      ctx.arc(c.x, c.y, c.radius + grow, 0, Math.PI * 2);
+      break;
+    case 'ring': {
+      ctx.arc(c.x, c.y, c.radius + grow, 0, Math.PI * 2);
+      const inner = shape.innerRadius - grow;
+      if (inner > 0) {
+        ctx.moveTo(c.x + inner, c.y);
+        ctx.arc(c.x, c.y, inner, 0, Math.PI * 2, true);
+      }
+      break;
+    }
+    case 'rect':
+      ctx.rect(c.x - shape.width / 2 - grow, c.y - shape.height / 2 - grow, shape.width + grow * 2, shape.height + grow * 2);
+      break;
+    case 'polygon': {
+      const o = polygonCentroid(shape.points);
+      shape.points.forEach((p, i) => {
+        const ox = p.x - o.x, oy = p.y - o.y;
+        const k = grow / (Math.hypot(ox, oy) || 1);
+        const px = c.x + p.x + ox * k, py = c.y + p.y + oy * k;
+        if (i === 0) ctx.moveTo(px, py); else ctx.lineTo(px, py);
+      });
+      ctx.closePath();
+      break;
+    }
+  }
+};
+
+// Length of the outer outline, for progress drawn along it
+export const zonePerimeter = (c: CircleConfig): number => {
+  const shape = getZoneShape(c);
+  switch (shape.kind) {
+    case 'rect':
+      return 2 * (shape.width + shape.height);
+    case 'polygon':
+      return shape.points.reduce((sum, a, i) => {
+        const b = shape.points[(i + 1) % shape.points.length];
+        return sum + Math.hypot(b.x - a.x, b.y - a.y);
+      }, 0);
+    default:
+      return Math.PI * 2 * c.radius;
+  }
+};
+
+// A fresh shape of the given kind, sized from the zone's radius
+export const createZoneShape = (kind: ZoneShape['kind'], c: CircleConfig): ZoneShape => {
+  const r = c.radius;
+  switch (kind) {
+    case 'rect':
+      return { kind, width: Math.round(r * 2), height: Math.round(r * 1.2) };
+    case 'ring':
+      return { kind, innerRadius: Math.round(r * 0.5) };
+    case 'polygon':
+      return {
+        kind,
+        points: Array.from({ length: 6 }, (_, i) => {
+          const a = -Math.PI / 2 + (i * Math.PI * 2) / 6;
+          return { x: Math.round(Math.cos(a) * r), y: Math.round(Math.sin(a) * r) };
+        })
+      };
+    default:
+      return { kind: 'circle' };
+  }
+};
+
+// Grows or shrinks the shape so its extent changes by `delta` px
+export const resizeZone = (c: CircleConfig, delta: number): Partial<CircleConfig> => {
+  const shape = getZoneShape(c);
+  const extent = zoneExtent(c) || 1;
+  const k = Math.max(MIN_ZONE_SIZE, extent + delta) / extent;
+  switch (shape.kind) {
+    case 'circle':
+      return { radius: Math.max(MIN_ZONE_SIZE, c.radius + delta) };
+    case 'ring':
+      return { radius: c.radius * k, shape: { ...shape, innerRadius: shape.innerRadius * k } };
+    case 'rect':
+      return { shape: { ...shape, width: shape.width * k, height: shape.height * k } };
+    case 'polygon': {
+      // Scale about the centroid so the shape stays put
+      const o = polygonCentroid(shape.points);
+      return { shape: { ...shape, points: shape.points.map(p => ({ x: o.x + (p.x - o.x) * k, y: o.y + (p.y - o.y) * k })) } };
+    }
+  }
+};
+
+export interface ZoneHandle {
+  id: string; // 'radius' | 'inner' | 'corner' | `v${index}`
+  x: number;
+  y: number;
+}
+
+// Editor drag handles, in scene space
+export const zoneHandles = (c: CircleConfig): ZoneHandle[] => {
+  const shape = getZoneShape(c);
+  switch (shape.kind) {
+    case 'circle':
+      return [{ id: 'radius', x: c.x + c.radius, y: c.y }];
+    case 'ring':
+      // A (near) solid ring has no inner handle: it would sit on the centre and block moving the zone
+      return shape.innerRadius < MIN_ZONE_SIZE
+        ? [{ id: 'radius', x: c.x + c.radius, y: c.y }]
+        : [{ id: 'radius', x: c.x + c.radius, y: c.y }, { id: 'inner', x: c.x - shape.innerRadius, y: c.y }];
+    case 'rect':
+      return [{ id: 'corner', x: c.x + shape.width / 2, y: c.y + shape.height / 2 }];
+    case 'polygon':
+      return shape.points.map((p, i) => ({ id: `v${i}`, x: c.x + p.x, y: c.y + p.y }));
+  }
+};
+
+// Config change for dragging handle `id` to scene point `p`
+export const dragZoneHandle = (c: CircleConfig, id: string, p: Point): Partial<CircleConfig> => {
+  const shape = getZoneShape(c);
+  const d = Math.hypot(p.x - c.x, p.y - c.y);
+  if (shape.kind === 'circle' && id === 'radius') {
+    return { radius: Math.max(MIN_ZONE_SIZE, d) };
+  }
+  if (shape.kind === 'ring') {
+    if (id === 'radius') return { radius: Math.max(shape.innerRadius + MIN_ZONE_SIZE, d) };
+    // Dragged into the centre, the hole closes; the panel's Inner Radius slider reopens it
+    if (id === 'inner') return { shape: { ...shape, innerRadius: d < MIN_ZONE_SIZE ? 0 : Math.min(c.radius - MIN_ZONE_SIZE, d) } };
+  }
+  if (shape.kind === 'rect' && id === 'corner') {
+    return { shape: { ...shape, width: Math.max(MIN_ZONE_SIZE * 2, Math.abs(p.x - c.x) * 2), height: Math.max(MIN_ZONE_SIZE * 2, Math.abs(p.y - c.y) * 2) } };
+  }
+  if (shape.kind === 'polygon' && id.startsWith('v')) {
+    const index = Number(id.slice(1));
+    return { shape: { ...shape, points: shape.points.map((v, i) => (i === index ? { x: p.x - c.x, y: p.y - c.y } : v)) } };
+  }
+  return {};
+};
+
+// Double-click editing for polygons: a vertex under `p` is removed (down to a
+// triangle), otherwise a new vertex is inserted on an edge within `tolerance`.
+export const editPolygonVertex = (c: CircleConfig, p: Point, tolerance: number): ZoneShape | null => {
+  const shape = getZoneShape(c);
+  if (shape.kind !== 'polygon') return null;
+  const local = { x: p.x - c.x, y: p.y - c.y };
+
+  const hit = shape.points.findIndex(v => Math.hypot(v.x - local.x, v.y - local.y) <= tolerance);
+  if (hit !== -1) {
+    return shape.points.length > 3 ? { ...shape, points: shape.points.filter((_, i) => i !== hit) } : null;
+  }
+
+  let best = -1, bestDist = tolerance, bestPoint = local;
+  shape.points.forEach((a, i) => {
+    const q = projectOnSegment(local, a, shape.points[(i + 1) % shape.points.length]);
+    const dist = Math.hypot(q.x - local.x, q.y - local.y);
+    if (dist <= bestDist) { best = i; bestDist = dist; bestPoint = q; }
+  });
+  if (best === -1) return null;
+  const points = shape.points.slice();
+  points.splice(best + 1, 0, bestPoint);
+  return { ...shape, points };
+};